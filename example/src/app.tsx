@@ -241,36 +241,38 @@ function TodoList() {
       completed: false,
     };
 
-    const previousTodos = todos;
-    mutate('todos', [...todos, newTodo]);
     setNewTodoText('');
 
     try {
-      // simulate API call
-      await new Promise((resolve, reject) => {
-        setTimeout(() => {
-          if (Math.random() < 0.2) {
-            reject(new Error('Failed to add todo'));
-          } else {
-            resolve(true);
-          }
-        }, 1000);
-      });
+      // simulate API call; the todo is shown right away and rolled back
+      // automatically if the request fails
+      await mutate<Todo[]>(
+        'todos',
+        current =>
+          new Promise((resolve, reject) => {
+            setTimeout(() => {
+              if (Math.random() < 0.2) {
+                reject(new Error('Failed to add todo'));
+              } else {
+                resolve([...(current ?? []), newTodo]);
+              }
+            }, 1000);
+          }),
+        { optimisticData: current => [...(current ?? []), newTodo] }
+      );
     } catch (error) {
-      // revert the failed todo
-      alert('Failed to add todo! Reverting this item...');
-      mutate('todos', previousTodos);
+      alert('Failed to add todo! The item was reverted.');
     } finally {
       setIsAdding(false);
     }
   };
 
   const toggleTodo = (id: number) => {
-    if (!todos) return;
-    const updated = todos.map(todo =>
-      todo.id === id ? { ...todo, completed: !todo.completed } : todo
+    mutate<Todo[]>('todos', todos =>
+      (todos ?? []).map(todo =>
+        todo.id === id ? { ...todo, completed: !todo.completed } : todo
+      )
     );
-    mutate('todos', updated);
   };
 
   return (
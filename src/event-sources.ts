@@ -0,0 +1,32 @@
+import { isDocumentHidden } from './utils';
+
+/**
+ * Subscribes a listener to an external event and returns an unsubscribe
+ * function. Stores use these to revalidate on focus and reconnect, and tests or
+ * non-browser environments can replace them.
+ */
+export type RevalidateEventSource = (listener: () => void) => () => void;
+
+export const focusEventSource: RevalidateEventSource = listener => {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return () => {};
+  }
+
+  const onVisibilityChange = () => {
+    if (!isDocumentHidden()) listener();
+  };
+  window.addEventListener('focus', listener);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  return () => {
+    window.removeEventListener('focus', listener);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+};
+
+export const reconnectEventSource: RevalidateEventSource = listener => {
+  if (typeof window === 'undefined') return () => {};
+
+  window.addEventListener('online', listener);
+  return () => window.removeEventListener('online', listener);
+};
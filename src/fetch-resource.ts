@@ -1,21 +1,57 @@
-import { isPromise } from './utils';
+import { abortable, isPromise, replaceEqualDeep, toError } from './utils';
+import { sleep } from './utils/time';
+import { hashKey } from './resource-key';
 import {
+  Fetcher,
   MightBePromise,
   Resource,
+  ResourceKey,
   ResourceStatus,
   RevalidatingResource,
   PendingResource,
 } from './types';
 import { ResourceStore, defaultResourceStore } from './resource-store';
-import { isStale } from './resource-state';
+import {
+  hasResult,
+  isErrorExpired,
+  isInvalidated,
+  isStale,
+  settledResource,
+} from './resource-state';
+import {
+  RetryDelayOption,
+  RetryOption,
+  getRetryDelay,
+  shouldRetry,
+} from './retry';
+
+export type DedupeMode = 'cancel-previous' | 'dedupe' | 'queue';
 
 export type FetchResourceOptions = {
   ttl?: number;
   suspense?: boolean;
+  retry?: RetryOption;
+  retryDelay?: RetryDelayOption;
+  errorTtl?: number;
+  retryOnMount?: boolean | ((error: Error) => boolean);
+  keepDataOnError?: boolean;
+  dedupeMode?: DedupeMode;
+  gcTime?: number;
+  structuralSharing?: boolean;
+  dependsOn?: ResourceDependency[];
+};
+
+/** A resource whose result a dependent resource is fetched with. */
+export type ResourceDependency<T = unknown> = {
+  key: ResourceKey;
+  /** Fetches the dependency when it is not cached or stale. */
+  fetcher: Fetcher<T>;
+  options?: Omit<FetchResourceOptions, 'suspense'>;
 };
 
 type FetchResourceInternal = {
   force?: boolean;
+  mount?: boolean;
 };
 
 /**
@@ -31,12 +67,28 @@ export function createFetchResource(store: ResourceStore) {
    * @template Result - The type of data returned by the fetcher function
    * @template S - Whether Suspense mode is enabled (boolean | undefined)
    *
-   * @param key - Unique identifier for the resource. Used for caching and deduplication.
-   * @param fn - Function that returns data synchronously or asynchronously
+   * @param resourceKey - Unique identifier for the resource: a string, an array or a plain object.
+   *   Arrays and objects are hashed deterministically. Used for caching and deduplication.
+   * @param fn - Function that returns data synchronously or asynchronously.
+   *   Receives a context with an `AbortSignal` that fires when the request is
+   *   superseded by a forced refetch or cancelled via `store.cancel(key)`.
    * @param options - Optional configuration
    * @param options.ttl - Time-to-live in seconds before cache expires. Default: `60`
    * @param options.suspense - Enable Suspense mode (throws promise while loading). Default: `true`
+   * @param options.retry - Number of retries, or a predicate receiving the failure count and error. Default: `0`
+   * @param options.retryDelay - Delay in seconds between retries, `'exponential'`, or a function of the failure count. Default: `'exponential'`
+   * @param options.errorTtl - Time in seconds a rejected resource is kept before a mount re-attempts it. Default: `Infinity`
+   * @param options.retryOnMount - Whether a mount re-attempts an expired rejected resource, or a predicate receiving the error. Default: `true`
+   * @param options.keepDataOnError - Keep the last successful result on a rejected resource. Default: `true`
+   * @param options.dedupeMode - How a forced fetch behaves while a request is in flight:
+   *   `'cancel-previous'` aborts it, `'dedupe'` reuses it, `'queue'` runs once it settles. Default: `'cancel-previous'`
+   * @param options.gcTime - Time in seconds the resource is kept once it has no subscribers. Default: the store's `gcTime`
+   * @param options.structuralSharing - Reuse the parts of the previous result that deeply equal the new one. An unchanged
+   *   result keeps its `$version` and is not reported to store watchers. Default: `false`
+   * @param options.dependsOn - Resources fetched, or awaited, before `fn`, which receives their results as
+   *   `context.dependencies`. Invalidating or mutating one of them invalidates this resource as well
    * @param options.force - Force refetch, bypassing cache. Default: `false`
+   * @param options.mount - Whether the call comes from a mounting component. Rejected resources are only re-attempted on mount. Default: `true`
    *
    * @returns
    * - When `suspense: false`: Returns `Result | Error | undefined`
@@ -56,90 +108,364 @@ export function createFetchResource(store: ResourceStore) {
     Result,
     S extends boolean | undefined = undefined,
   >(
-    key: string,
-    fn: (...args: unknown[]) => MightBePromise<Result>,
+    resourceKey: ResourceKey,
+    fn: Fetcher<Result>,
     options?: Omit<FetchResourceOptions, 'suspense'> & {
       suspense?: S;
     } & FetchResourceInternal
   ): S extends false ? Result | Error | undefined : Result | Error {
+    const key = hashKey(resourceKey);
+    store.keys.set(key, resourceKey);
     let resource = store.cache.get(key) as Resource<Result>;
     const ttl = options?.ttl ?? 60;
     const suspense = options?.suspense ?? true;
-    const shouldRevalidate = isStale(ttl, resource) || options?.force;
+    const keepDataOnError = options?.keepDataOnError ?? true;
+    if (options?.gcTime !== undefined) store.setGcTime(key, options.gcTime);
+    if (options?.dependsOn) {
+      store.setDependencies(
+        key,
+        options.dependsOn.map(dependency => hashKey(dependency.key))
+      );
+    }
+    const shouldRevalidate =
+      !resource ||
+      isStale(ttl, resource) ||
+      isInvalidated(resource) ||
+      shouldRetryOnMount() ||
+      options?.force;
     let result: Result;
     let error: Error;
     let status: ResourceStatus;
 
+    function shouldRetryOnMount() {
+      const errorTtl = options?.errorTtl ?? Infinity;
+      const retryOnMount = options?.retryOnMount ?? true;
+      if (options?.mount === false || !isErrorExpired(errorTtl, resource)) {
+        return false;
+      }
+      return typeof retryOnMount === 'function'
+        ? retryOnMount(resource.error)
+        : retryOnMount;
+    }
+
+    // Settles with the result of a dependency once no request is in flight.
+    function readDependency(dependencyKey: ResourceKey): Promise<unknown> {
+      const dependency = store.getResourceByKey(dependencyKey);
+      if (
+        dependency?.status === 'pending' ||
+        dependency?.status === 'revalidating'
+      ) {
+        return dependency.suspender.then(() => readDependency(dependencyKey));
+      }
+      if (dependency?.status === 'fulfilled') {
+        return Promise.resolve(dependency.result);
+      }
+      return Promise.reject(
+        dependency?.status === 'rejected'
+          ? dependency.error
+          : new Error(`Dependency "${hashKey(dependencyKey)}" has no data`)
+      );
+    }
+
+    function resolveDependencies(dependsOn: ResourceDependency[]) {
+      return Promise.all(
+        dependsOn.map(dependency => {
+          fetchResource(dependency.key, dependency.fetcher, {
+            ...dependency.options,
+            suspense: false,
+            mount: false,
+          });
+          return readDependency(dependency.key);
+        })
+      );
+    }
+
     function handleOperation() {
       const nextVersion = store.isSettled(resource) ? resource.$version + 1 : 0;
+      const previous = store.isSettled(resource)
+        ? settledResource(resource)
+        : undefined;
+      const lastResult =
+        keepDataOnError && hasResult(previous)
+          ? { result: previous.result }
+          : {};
+      const controller = new AbortController();
+      const requestId = store.nextRequestId();
+      store.requests.get(key)?.controller.abort();
+      store.requests.set(key, { id: requestId, controller });
+      const startedAt = Date.now();
+      store.emit({ type: 'fetch:start', key: resourceKey });
+
+      function emitSettled(version: number, failure?: Error) {
+        const duration = Date.now() - startedAt;
+        store.emit(
+          failure
+            ? {
+                type: 'fetch:error',
+                key: resourceKey,
+                duration,
+                version,
+                error: failure,
+              }
+            : { type: 'fetch:success', key: resourceKey, duration, version }
+        );
+      }
+
+      let suspender: Promise<unknown> | undefined;
+      let failureCount = 0;
+      let failureReason: Error | undefined;
+
+      function ownsResource() {
+        const current = store.cache.get(key);
+        return !!current && 'suspender' in current
+          ? current.suspender === suspender
+          : false;
+      }
+
+      // With structural sharing, an unchanged result is the previous object.
+      function shareResult(next: Result): Result {
+        return options?.structuralSharing && hasResult(previous)
+          ? replaceEqualDeep(previous.result, next)
+          : next;
+      }
+
+      // Without structural sharing, the same object may have been changed in
+      // place, so every result counts as new.
+      function isUnchanged(next: Result) {
+        return options?.structuralSharing &&
+          hasResult(previous) &&
+          previous.status === 'fulfilled'
+          ? next === previous.result
+          : false;
+      }
+
+      function run(): MightBePromise<Result> {
+        const signal = controller.signal;
+        const dependsOn = options?.dependsOn;
+        if (!dependsOn?.length) return fn({ signal, dependencies: [] });
+        return resolveDependencies(dependsOn).then(dependencies =>
+          fn({ signal, dependencies })
+        );
+      }
+
+      function recordFailure(e: unknown) {
+        failureCount++;
+        failureReason = toError(e);
+        return failureReason;
+      }
+
+      function scheduleRetry(reason: Error): Promise<Result> {
+        const current = store.cache.get(key) as Resource<Result> | undefined;
+        if (current && ownsResource()) {
+          store.setResource(key, { ...current, failureCount, failureReason });
+          store.notifySubscribers(key);
+        }
+
+        const delay = getRetryDelay(options?.retryDelay, failureCount, reason);
+        return sleep(delay, controller.signal).then(attempt);
+      }
+
+      function handleFailure(e: unknown): Promise<Result> {
+        const reason = recordFailure(e);
+        if (
+          controller.signal.aborted ||
+          !shouldRetry(options?.retry, failureCount, reason)
+        ) {
+          return Promise.reject(reason);
+        }
+        return scheduleRetry(reason);
+      }
+
+      function attempt(): Promise<Result> {
+        let next: Promise<Result>;
+        try {
+          next = Promise.resolve(run());
+        } catch (e) {
+          next = Promise.reject(e);
+        }
+        return next.catch(handleFailure);
+      }
+
       let mightBePromise;
       try {
-        mightBePromise = fn();
+        mightBePromise = run();
         if (!isPromise(mightBePromise)) {
+          store.requests.delete(key);
+          const shared = shareResult(mightBePromise);
+          const unchanged = isUnchanged(shared);
           resource = {
             status: 'fulfilled',
-            result: mightBePromise,
+            result: shared,
             timestamp: Date.now(),
-            $version: nextVersion,
+            $version: unchanged ? nextVersion - 1 : nextVersion,
           };
 
-          store.cache.set(key, resource);
-          store.notifySubscribers(key);
+          store.setResource(key, resource);
+          if (!unchanged) store.notifySubscribers(key);
+          emitSettled(resource.$version);
           return;
         }
-      } catch (error) {
-        resource = {
-          status: 'rejected',
-          error: error as Error,
-          timestamp: Date.now(),
-          $version: nextVersion,
-        };
+        mightBePromise = mightBePromise.catch(handleFailure);
+      } catch (e) {
+        const reason = recordFailure(e);
+        if (!shouldRetry(options?.retry, failureCount, reason)) {
+          store.requests.delete(key);
+          resource = {
+            status: 'rejected',
+            error: reason,
+            ...lastResult,
+            timestamp: Date.now(),
+            $version: nextVersion,
+            failureCount,
+            failureReason,
+          };
 
-        store.cache.set(key, resource);
-        return;
+          store.setResource(key, resource);
+          emitSettled(nextVersion, reason);
+          return;
+        }
+        mightBePromise = scheduleRetry(reason);
       }
 
-      const suspender = mightBePromise
+      suspender = abortable(mightBePromise, controller.signal)
         .then(r => {
           status = 'fulfilled';
-          result = r;
+          result = shareResult(r);
         })
         .catch(e => {
           status = 'rejected';
-          error = e instanceof Error ? e : new Error(String(e));
+          error = toError(e);
           return e;
         })
         .finally(() => {
-          resource = {
-            status,
-            result,
-            error,
-            suspender,
-            timestamp: Date.now(),
-            $version: nextVersion,
-          };
-          store.cache.set(key, resource);
+          const request = store.requests.get(key);
+          const isLatest = request?.id === requestId;
+          if (isLatest) store.requests.delete(key);
+          const invalidated = isLatest && !!request.invalidated;
+
+          if (!isLatest || controller.signal.aborted) {
+            store.emit({
+              type: 'fetch:cancel',
+              key: resourceKey,
+              duration: Date.now() - startedAt,
+            });
+            // Only the newest request commits its result. When this one was
+            // superseded, the newer request owns the cache entry; restore the
+            // previous state only when nothing replaced it.
+            if (!ownsResource()) return;
+            if (previous) store.setResource(key, previous);
+            else store.cache.delete(key);
+            store.notifySubscribers(key);
+            return;
+          }
+
+          const timestamp = Date.now();
+          if (status === 'fulfilled' && isUnchanged(result) && !invalidated) {
+            // Nothing to update: keep the version and only let mounted
+            // components know that the revalidation has finished.
+            resource = {
+              status,
+              result,
+              suspender,
+              timestamp,
+              $version: nextVersion - 1,
+            } as Resource<Result>;
+            store.setResource(key, resource);
+            store.notifySubscribers(key, { watchers: false });
+            emitSettled(nextVersion - 1);
+            return;
+          }
+
+          resource = (
+            status === 'fulfilled'
+              ? {
+                  status,
+                  result,
+                  suspender,
+                  timestamp,
+                  $version: nextVersion,
+                  ...(invalidated && { invalidated }),
+                }
+              : {
+                  status,
+                  error,
+                  ...lastResult,
+                  suspender,
+                  timestamp,
+                  $version: nextVersion,
+                  failureCount,
+                  failureReason,
+                  ...(invalidated && { invalidated }),
+                }
+          ) as Resource<Result>;
+          store.setResource(key, resource);
           store.notifySubscribers(key);
+          emitSettled(nextVersion, status === 'rejected' ? error : undefined);
         });
 
-      const newResource = {
-        ...resource,
-        suspender,
-        status,
-      } as RevalidatingResource<Result> | PendingResource<Result>;
+      const newResource = (
+        hasResult(resource)
+          ? {
+              status,
+              result: resource.result,
+              suspender,
+              timestamp: resource.timestamp,
+              $version: resource.$version,
+              failureCount,
+              failureReason,
+            }
+          : { status, suspender, failureCount, failureReason }
+      ) as RevalidatingResource<Result> | PendingResource<Result>;
       resource = newResource;
-      store.cache.set(key, newResource);
+      store.setResource(key, newResource);
       store.notifySubscribers(key);
     }
 
-    if (!resource) {
-      status = 'pending';
-      handleOperation();
+    function deferToInflight() {
+      const inflight = store.requests.get(key);
+      const dedupeMode = options?.dedupeMode ?? 'cancel-previous';
+      if (!options?.force || !inflight || dedupeMode === 'cancel-previous') {
+        return false;
+      }
+
+      if (
+        dedupeMode === 'queue' &&
+        !inflight.queued &&
+        'suspender' in resource
+      ) {
+        inflight.queued = resource.suspender.then(() => {
+          try {
+            fetchResource(resourceKey, fn, {
+              ...options,
+              dedupeMode: 'cancel-previous',
+            });
+          } catch (thrown) {
+            if (!isPromise(thrown)) throw thrown;
+          }
+        });
+      }
+      return true;
     }
 
-    if (shouldRevalidate) {
-      status = 'revalidating';
+    if (shouldRevalidate && !deferToInflight()) {
+      if (store.isSettled(resource) && !options?.force) {
+        store.emit({
+          type: 'cache:stale',
+          key: resourceKey,
+          version: resource.$version,
+        });
+      }
+      status = hasResult(resource) ? 'revalidating' : 'pending';
       handleOperation();
+    } else {
+      store.touch(key);
+      if (resource.status === 'fulfilled' || resource.status === 'rejected') {
+        store.emit({
+          type: 'cache:hit',
+          key: resourceKey,
+          version: resource.$version,
+        });
+      }
     }
 
     if (resource.status === 'pending') {
@@ -0,0 +1,148 @@
+import { ResourceKey, Resource } from './types';
+import { hashKey } from './resource-key';
+import { ResourceStore } from './resource-store';
+import { settledResource } from './resource-state';
+
+type DehydratedError = {
+  name: string;
+  message: string;
+};
+
+export type DehydratedResource =
+  | {
+      key: ResourceKey;
+      status: 'fulfilled';
+      result: unknown;
+      timestamp: number;
+      $version: number;
+      invalidated?: boolean;
+    }
+  | {
+      key: ResourceKey;
+      status: 'rejected';
+      error: DehydratedError;
+      result?: unknown;
+      timestamp: number;
+      $version: number;
+      invalidated?: boolean;
+    };
+
+/** Serializable snapshot of a store, produced by `dehydrate`. */
+export type DehydratedState = {
+  resources: DehydratedResource[];
+};
+
+export type DehydrateOptions = {
+  /** Whether a settled resource is included. Default: every settled resource */
+  shouldDehydrate?: (key: ResourceKey, resource: Resource<unknown>) => boolean;
+};
+
+/**
+ * Serializes a single settled resource. Returns `undefined` while it is pending.
+ */
+export function dehydrateResource(
+  key: ResourceKey,
+  resource: Resource<unknown>
+): DehydratedResource | undefined {
+  if (resource.status === 'pending') return undefined;
+
+  const settled = settledResource(resource);
+  const { timestamp, $version } = settled;
+  const invalidated = settled.invalidated && { invalidated: true };
+  if (settled.status === 'fulfilled') {
+    return {
+      key,
+      status: 'fulfilled',
+      result: settled.result,
+      timestamp,
+      $version,
+      ...invalidated,
+    };
+  }
+
+  return {
+    key,
+    status: 'rejected',
+    error: { name: settled.error.name, message: settled.error.message },
+    ...('result' in settled && { result: settled.result }),
+    timestamp,
+    $version,
+    ...invalidated,
+  };
+}
+
+/**
+ * Writes a single serialized resource to a store, unless the store is
+ * fetching the key or, by default, already holds it in a newer state.
+ *
+ * @param isNewer - Decides whether the resource replaces a settled one. Default: compares timestamps
+ * @returns `true` if the resource was written
+ */
+export function hydrateResource(
+  store: ResourceStore,
+  dehydrated: DehydratedResource,
+  isNewer = (current: { timestamp: number; $version: number }) =>
+    dehydrated.timestamp > current.timestamp
+): boolean {
+  const key = hashKey(dehydrated.key);
+  const current = store.cache.get(key);
+  // A cancelled request may leave its pending entry until it settles.
+  if (store.requests.has(key)) return false;
+  if (store.isSettled(current) && !isNewer(current)) return false;
+
+  const { key: resourceKey, ...resource } = dehydrated;
+  store.keys.set(key, resourceKey);
+  store.setResource(
+    key,
+    resource.status === 'fulfilled'
+      ? resource
+      : {
+          ...resource,
+          error: Object.assign(new Error(resource.error.message), {
+            name: resource.error.name,
+          }),
+        }
+  );
+  store.notifySubscribers(key);
+  return true;
+}
+
+/**
+ * Serializes the settled resources of a store, e.g. after rendering on the
+ * server. Pending requests are skipped; revalidating resources are included
+ * with their current data.
+ *
+ * @param store - The store to serialize
+ * @param options.shouldDehydrate - Filter over the original key and resource
+ * @returns A snapshot that can be passed through `JSON.stringify`
+ */
+export function dehydrate(
+  store: ResourceStore,
+  options: DehydrateOptions = {}
+): DehydratedState {
+  const resources: DehydratedResource[] = [];
+
+  store.cache.forEach((resource, hash) => {
+    const key = store.keys.get(hash) ?? hash;
+    if (options.shouldDehydrate && !options.shouldDehydrate(key, resource)) {
+      return;
+    }
+
+    const dehydrated = dehydrateResource(key, resource);
+    if (dehydrated) resources.push(dehydrated);
+  });
+
+  return { resources };
+}
+
+/**
+ * Seeds a store with a snapshot from `dehydrate`, e.g. on the client before
+ * hydrating server-rendered HTML. Entries the store already holds in a newer
+ * state, or is fetching, are left untouched.
+ *
+ * @param store - The store to seed
+ * @param state - Snapshot produced by `dehydrate`
+ */
+export function hydrate(store: ResourceStore, state: DehydratedState) {
+  state.resources.forEach(dehydrated => hydrateResource(store, dehydrated));
+}
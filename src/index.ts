@@ -1,4 +1,78 @@
 export { default as useResource } from './use-resource';
-export { mutate, cache } from './resource-store';
+export { default as useMutation } from './use-mutation';
+export { default as useInfiniteResource } from './use-infinite-resource';
+export { default as useResources } from './use-resources';
+export {
+  mutate,
+  cancel,
+  invalidate,
+  cache,
+  createResourceStore,
+} from './resource-store';
+export { prefetch, createPrefetch } from './prefetch';
+export { ResourceProvider, useResourceStore } from './resource-provider';
+export { hashKey } from './resource-key';
+export { dehydrate, hydrate } from './hydration';
+export { syncStore, createBroadcastChannelTransport } from './sync';
+export {
+  createMemoryStorage,
+  createLocalStorage,
+  createIndexedDBStorage,
+} from './storage-adapters';
 
-export type { FetchResourceOptions } from './fetch-resource';
+export type {
+  FetchResourceOptions,
+  DedupeMode,
+  ResourceDependency,
+} from './fetch-resource';
+export type { UseResourceOptions, BoundMutate } from './use-resource';
+export type {
+  UseInfiniteResourceOptions,
+  InfiniteData,
+  PageFetcher,
+} from './use-infinite-resource';
+export type {
+  ResourceQuery,
+  ResourceState,
+  ResourceStates,
+  UseResourcesOptions,
+  ErrorMode,
+} from './use-resources';
+export type {
+  UseMutationOptions,
+  MutationState,
+  MutationStatus,
+} from './use-mutation';
+export type {
+  ResourceStore,
+  ResourceStoreOptions,
+  RevalidateEvent,
+  StoreChange,
+  StoreEvent,
+  StoreEventType,
+  InvalidateFilter,
+  InvalidateOptions,
+  Mutate,
+  MutateOptions,
+  SyncUpdater,
+  AsyncUpdater,
+} from './resource-store';
+export type { PrefetchOptions } from './prefetch';
+export type { RevalidateEventSource } from './event-sources';
+export type { SyncMessage, SyncTransport, SyncOptions } from './sync';
+export type {
+  PersistOptions,
+  PersistedResource,
+  StorageAdapter,
+} from './persistence';
+export type {
+  LocalStorageOptions,
+  IndexedDBStorageOptions,
+} from './storage-adapters';
+export type {
+  DehydratedState,
+  DehydratedResource,
+  DehydrateOptions,
+} from './hydration';
+export type { FetchContext, Fetcher, ResourceKey } from './types';
+export type { RetryOption, RetryDelayOption } from './retry';
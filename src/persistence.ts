@@ -0,0 +1,181 @@
+import { MightBePromise, Resource, ResourceKey } from './types';
+import { seconds } from './utils/time';
+import { isPromise, isServer } from './utils';
+import { ResourceStore } from './resource-store';
+import {
+  DehydratedResource,
+  dehydrateResource,
+  hydrateResource,
+} from './hydration';
+
+const DEFAULT_MAX_AGE = 60 * 60 * 24;
+const DEFAULT_THROTTLE = 1;
+
+/** A serialized resource as written to storage. */
+export type PersistedResource = DehydratedResource & {
+  buster: string;
+};
+
+/**
+ * Storage backend for persisted resources, keyed by the hashed resource key.
+ * Every method may return synchronously or a promise.
+ */
+export type StorageAdapter = {
+  get: (key: string) => MightBePromise<PersistedResource | undefined>;
+  set: (key: string, value: PersistedResource) => MightBePromise<void>;
+  delete: (key: string) => MightBePromise<void>;
+  keys: () => MightBePromise<string[]>;
+};
+
+export type PersistOptions = {
+  storage: StorageAdapter;
+  /** Whether a resource is persisted. Default: every settled resource */
+  shouldPersist?: (key: ResourceKey, resource: Resource<unknown>) => boolean;
+  /** Seconds a persisted resource is restored for after it was fetched. Default: `86400` */
+  maxAge?: number;
+  /** Persisted resources written with a different buster are discarded. Default: `''` */
+  buster?: string;
+  /** Seconds during which writes are batched. Default: `1` */
+  throttle?: number;
+};
+
+export type Persister = {
+  /** Restores persisted resources; synchronous for synchronous storage. */
+  restore: () => MightBePromise<void>;
+};
+
+function then<T, R>(
+  value: MightBePromise<T>,
+  fn: (value: T) => MightBePromise<R>
+): MightBePromise<R> {
+  return isPromise<T>(value) ? value.then(fn) : fn(value);
+}
+
+function all(values: MightBePromise<unknown>[]): MightBePromise<void> {
+  return values.some(value => isPromise(value))
+    ? Promise.all(values).then(() => undefined)
+    : undefined;
+}
+
+// Persistence is best effort: a full or unavailable storage never breaks the cache.
+function safely(operation: () => MightBePromise<unknown>) {
+  try {
+    const result = operation();
+    if (isPromise(result)) result.catch(() => {});
+  } catch {}
+}
+
+// Like `safely`, but calls `onError` and yields `undefined` when a read fails.
+function recover<T>(
+  operation: () => MightBePromise<T>,
+  onError: () => void = () => {}
+): MightBePromise<T | undefined> {
+  const fail = () => {
+    onError();
+    return undefined;
+  };
+  try {
+    const result = operation();
+    return isPromise<T>(result) ? result.catch(fail) : result;
+  } catch {
+    return fail();
+  }
+}
+
+/**
+ * Connects a store to a storage backend: restores what was persisted and
+ * writes updated resources in throttled batches.
+ *
+ * @internal Used by `createResourceStore({ persist })`.
+ */
+export function createPersister(
+  store: ResourceStore,
+  options: PersistOptions
+): Persister {
+  const { storage, shouldPersist } = options;
+  const buster = options.buster ?? '';
+  const maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+  const throttle = options.throttle ?? DEFAULT_THROTTLE;
+  const persisted = new Set<string>();
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let restoring = false;
+
+  function restoreEntry(key: string, entry: PersistedResource | undefined) {
+    if (!entry) return;
+    const { buster: entryBuster, ...dehydrated } = entry;
+    if (
+      entryBuster !== buster ||
+      Date.now() - dehydrated.timestamp > seconds(maxAge)
+    ) {
+      safely(() => storage.delete(key));
+      return;
+    }
+
+    persisted.add(key);
+    restoring = true;
+    try {
+      hydrateResource(store, dehydrated);
+    } finally {
+      restoring = false;
+    }
+  }
+
+  function restoreKey(key: string): MightBePromise<void> {
+    // A corrupt entry is dropped instead of failing the whole restore.
+    return recover(
+      () => then(storage.get(key), entry => restoreEntry(key, entry)),
+      () => safely(() => storage.delete(key))
+    );
+  }
+
+  function restore(): MightBePromise<void> {
+    return then(
+      recover(() => storage.keys()),
+      keys => all((keys ?? []).map(restoreKey))
+    );
+  }
+
+  function write(key: string) {
+    const resource = store.cache.get(key);
+    // Pending resources are written once they settle.
+    if (resource?.status === 'pending') return;
+
+    const resourceKey = store.keys.get(key) ?? key;
+    const entry = resource && dehydrateResource(resourceKey, resource);
+    if (!entry || (shouldPersist && !shouldPersist(resourceKey, resource))) {
+      if (persisted.delete(key)) safely(() => storage.delete(key));
+      return;
+    }
+
+    persisted.add(key);
+    // A key invalidated while it revalidates is stale until the request lands.
+    const invalidated = store.requests.get(key)?.invalidated;
+    safely(() =>
+      storage.set(key, {
+        ...entry,
+        ...(invalidated && { invalidated }),
+        buster,
+      })
+    );
+  }
+
+  function flush() {
+    clearTimeout(timer);
+    timer = undefined;
+    const keys = Array.from(changed);
+    changed.clear();
+    keys.forEach(write);
+  }
+
+  store.watch(key => {
+    if (restoring) return;
+    changed.add(key);
+    if (!timer) timer = setTimeout(flush, seconds(throttle));
+  });
+
+  // Writes still waiting for the throttle would be lost when the page unloads.
+  if (!isServer()) window.addEventListener('pagehide', flush);
+
+  return { restore };
+}
@@ -0,0 +1,52 @@
+import { Fetcher, ResourceKey } from './types';
+import { ResourceStore, defaultResourceStore } from './resource-store';
+import { FetchResourceOptions, createFetchResource } from './fetch-resource';
+
+export type PrefetchOptions = Pick<
+  FetchResourceOptions,
+  'ttl' | 'retry' | 'retryDelay' | 'gcTime' | 'dependsOn'
+>;
+
+/**
+ * Creates a prefetch function that warms the cache of the given store.
+ *
+ * @param store - The resource store to populate
+ * @returns A configured prefetch function
+ */
+export function createPrefetch(store: ResourceStore) {
+  const fetchResource = createFetchResource(store);
+
+  /**
+   * Fetches a resource into the cache without suspending, e.g. from route
+   * loaders or hover handlers. Data that is still fresh is not refetched, and
+   * a request already in flight for the key is reused.
+   *
+   * @param resourceKey - Key of the resource, as passed to `useResource`
+   * @param fetcher - Function that returns data synchronously or asynchronously
+   * @param options - Optional configuration
+   * @param options.ttl - Time-to-live in seconds of the cached data. Default: `60`
+   *
+   * @returns A promise that resolves once the resource has settled. It never
+   * rejects; failures are cached like any other rejected resource.
+   */
+  return function prefetch<T>(
+    resourceKey: ResourceKey,
+    fetcher: Fetcher<T>,
+    options?: PrefetchOptions
+  ): Promise<void> {
+    try {
+      fetchResource(resourceKey, fetcher, { ...options, suspense: false });
+    } catch {
+      // Failures are stored on the resource; prefetching is best effort.
+    }
+
+    const resource = store.getResourceByKey<T>(resourceKey);
+    if (!resource || !('suspender' in resource)) return Promise.resolve();
+    return resource.suspender.then(
+      () => undefined,
+      () => undefined
+    );
+  };
+}
+
+export const prefetch = createPrefetch(defaultResourceStore);
@@ -0,0 +1,62 @@
+import { ResourceKey } from './types';
+import { isPlainObject } from './utils';
+
+/**
+ * Hashes a resource key into the string used by the store. String keys are
+ * used as is; arrays and plain objects are serialized with object properties
+ * sorted, so `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` hash the same.
+ *
+ * Strings that start like a serialized key are serialized as well, so the
+ * string `'["todos"]'` and the array `['todos']` never share a hash.
+ */
+export function hashKey(key: ResourceKey): string {
+  if (typeof key === 'string') {
+    return /^["[{]/.test(key) ? JSON.stringify(key) : key;
+  }
+
+  return JSON.stringify(key, (_, value: unknown) =>
+    isPlainObject(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, property) => {
+            sorted[property] = value[property];
+            return sorted;
+          }, {})
+      : value
+  );
+}
+
+function partialMatch(partial: unknown, value: unknown): boolean {
+  if (Array.isArray(partial)) {
+    return (
+      Array.isArray(value) &&
+      partial.length <= value.length &&
+      partial.every((item, index) => partialMatch(item, value[index]))
+    );
+  }
+  if (isPlainObject(partial)) {
+    return (
+      isPlainObject(value) &&
+      Object.keys(partial).every(property =>
+        partialMatch(partial[property], value[property])
+      )
+    );
+  }
+  return partial === value;
+}
+
+/**
+ * Checks whether `prefix` is a prefix of `key`. String keys match with
+ * `startsWith`; arrays match element by element from the start, and objects
+ * match when every property of the prefix matches.
+ *
+ * @example
+ * matchesKeyPrefix(['todos'], ['todos', { id: 1 }]); // true
+ * matchesKeyPrefix({ type: 'todo' }, { type: 'todo', id: 1 }); // true
+ */
+export function matchesKeyPrefix(prefix: ResourceKey, key: ResourceKey) {
+  if (typeof prefix === 'string') {
+    return typeof key === 'string' && key.startsWith(prefix);
+  }
+  return partialMatch(prefix, key);
+}
@@ -0,0 +1,65 @@
+import { createContext, ReactNode, useContext, useMemo } from 'react';
+import { ResourceStore, defaultResourceStore } from './resource-store';
+import { createFetchResource, fetchResource } from './fetch-resource';
+
+type ResourceContextValue = {
+  store: ResourceStore;
+  fetchResource: ReturnType<typeof createFetchResource>;
+};
+
+const ResourceContext = createContext<ResourceContextValue>({
+  store: defaultResourceStore,
+  fetchResource,
+});
+
+type ResourceProviderProps = {
+  store: ResourceStore;
+  children?: ReactNode;
+};
+
+/**
+ * Provides a resource store to every `useResource` call rendered below it.
+ * Components outside of any provider fall back to the default store.
+ *
+ * @param props.store - Store created with `createResourceStore()`
+ *
+ * @example
+ * ```tsx
+ * const store = createResourceStore();
+ *
+ * function App() {
+ *   return (
+ *     <ResourceProvider store={store}>
+ *       <User />
+ *     </ResourceProvider>
+ *   );
+ * }
+ * ```
+ */
+export function ResourceProvider({ store, children }: ResourceProviderProps) {
+  const value = useMemo(
+    () => ({ store, fetchResource: createFetchResource(store) }),
+    [store]
+  );
+
+  return (
+    <ResourceContext.Provider value={value}>
+      {children}
+    </ResourceContext.Provider>
+  );
+}
+
+/**
+ * Returns the store and the matching `fetchResource` of the nearest
+ * `ResourceProvider`, or the default ones when there is no provider.
+ */
+export function useResourceContext() {
+  return useContext(ResourceContext);
+}
+
+/**
+ * Returns the store of the nearest `ResourceProvider`.
+ */
+export function useResourceStore() {
+  return useResourceContext().store;
+}
@@ -4,6 +4,7 @@ import {
   SuccessfullResource,
   ErroredResult,
   FullfiledResult,
+  RevalidatingResource,
 } from './types';
 
 export function successfullResource<T>(
@@ -14,6 +15,15 @@ export function successfullResource<T>(
   );
 }
 
+export function hasResult<T>(
+  resource?: Resource<T>
+): resource is Extract<Resource<T>, { result: T }> {
+  return (
+    successfullResource(resource) ||
+    (failedResource(resource) && 'result' in resource)
+  );
+}
+
 export function failedResource<T>(
   resource?: Resource<T>
 ): resource is ErroredResult<T> {
@@ -29,3 +39,33 @@ export function isStale<T>(
     resource?.timestamp + seconds(ttl) < Date.now()
   );
 }
+
+export function isInvalidated<T>(resource?: Resource<T>): boolean {
+  return (
+    (resource?.status === 'fulfilled' || resource?.status === 'rejected') &&
+    !!resource.invalidated
+  );
+}
+
+export function isErrorExpired<T>(
+  errorTtl: number,
+  resource?: Resource<T>
+): resource is ErroredResult<T> {
+  return (
+    resource?.status === 'rejected' &&
+    resource.timestamp + seconds(errorTtl) < Date.now()
+  );
+}
+
+export function settledResource<T>(
+  resource: FullfiledResult<T> | ErroredResult<T> | RevalidatingResource<T>
+): FullfiledResult<T> | ErroredResult<T> {
+  if (resource.status !== 'revalidating') return resource;
+
+  return {
+    status: 'fulfilled',
+    result: resource.result,
+    timestamp: resource.timestamp,
+    $version: resource.$version,
+  };
+}
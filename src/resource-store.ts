@@ -1,60 +1,723 @@
-import { Resource, SuccessfullResource } from './types';
+import { Resource, ResourceKey, SuccessfullResource } from './types';
+import { hashKey, matchesKeyPrefix } from './resource-key';
+import { seconds } from './utils/time';
+import { isDocumentHidden, isPromise, isServer, toError } from './utils';
+import { hasResult, settledResource } from './resource-state';
+import { PersistOptions, createPersister } from './persistence';
+import {
+  RevalidateEventSource,
+  focusEventSource,
+  reconnectEventSource,
+} from './event-sources';
+
+const DEFAULT_GC_TIME = 300;
+const DEFAULT_EVENT_THROTTLE = 5;
+const NO_MUTATIONS: MutationState<unknown, unknown>[] = [];
+
+export type RevalidateEvent = 'focus' | 'reconnect';
+
+/** What happened to a key, as reported to `watch` listeners. */
+export type StoreChange = 'update' | 'invalidate';
+
+/**
+ * Lifecycle events of a store, as reported to `onEvent` listeners. `duration`
+ * is in milliseconds and `version` is the `$version` of the resource.
+ */
+export type StoreEvent =
+  | { type: 'fetch:start'; key: ResourceKey }
+  | {
+      type: 'fetch:success';
+      key: ResourceKey;
+      duration: number;
+      version: number;
+    }
+  | {
+      type: 'fetch:error';
+      key: ResourceKey;
+      duration: number;
+      version: number;
+      error: Error;
+    }
+  | { type: 'fetch:cancel'; key: ResourceKey; duration: number }
+  | { type: 'cache:hit'; key: ResourceKey; version: number }
+  | { type: 'cache:stale'; key: ResourceKey; version: number }
+  | { type: 'mutate'; key: ResourceKey; version?: number; error?: Error }
+  | { type: 'evict'; key: ResourceKey; version?: number };
+
+export type StoreEventType = StoreEvent['type'];
+
+export type ResourceStoreOptions = {
+  /** Seconds an unused key is kept before it is evicted. Default: `300` */
+  gcTime?: number;
+  /** Maximum number of cached keys; least recently used unused keys are evicted first. */
+  maxEntries?: number;
+  onEvict?: (key: ResourceKey, resource: Resource<unknown>) => void;
+  /** Event source for `revalidateOnFocus`. Default: window focus and visibility changes */
+  focusSource?: RevalidateEventSource;
+  /** Event source for `revalidateOnReconnect`. Default: window `online` events */
+  reconnectSource?: RevalidateEventSource;
+  /** Seconds during which repeated focus or reconnect events are ignored. Default: `5` */
+  eventThrottle?: number;
+  /** Restores resources from, and writes them to, a storage backend. */
+  persist?: PersistOptions;
+  /** Called with the data of every successful fetch. */
+  onSuccess?: (data: unknown, key: ResourceKey) => void;
+  /** Called with the error of every failed fetch, once retries are exhausted. */
+  onError?: (error: Error, key: ResourceKey) => void;
+};
+
+/**
+ * Selects the keys affected by `invalidate`: a key prefix (or the exact key
+ * with `{ exact: true }`), or a predicate over the original key and resource.
+ */
+export type InvalidateFilter =
+  | ResourceKey
+  | ((key: ResourceKey, resource: Resource<unknown>) => boolean);
+
+export type InvalidateOptions = {
+  /** Only match the key itself instead of every key it prefixes. Default: `false` */
+  exact?: boolean;
+};
+
+export type MutateOptions<T> = {
+  /** Data shown while an async update is pending. */
+  optimisticData?: T | ((current: T | undefined) => T);
+  /** Restore the previous snapshot when an async update fails. Default: `true` */
+  rollbackOnError?: boolean;
+  /** Invalidate the key once the update has settled. Default: `false` */
+  revalidate?: boolean;
+};
+
+export type SyncUpdater<T> = T | ((current: T | undefined) => T);
+export type AsyncUpdater<T> =
+  | Promise<T>
+  | ((current: T | undefined) => Promise<T>);
+
+/**
+ * Result of a mutation of a key that is not cached. Nothing is written, but
+ * the update runs, so the result is a promise exactly when it is async, and
+ * a failed update still rejects for the caller.
+ */
+export function skipMutation<T>(
+  updater: SyncUpdater<T> | AsyncUpdater<T>
+): boolean | Promise<boolean> {
+  const next =
+    typeof updater === 'function'
+      ? (updater as (current: T | undefined) => T | Promise<T>)(undefined)
+      : updater;
+  return isPromise<T>(next) ? next.then(() => false) : false;
+}
+
+// A failing listener never changes the state of a resource; its error is
+// rethrown asynchronously to reach global error handlers.
+function callListener(listener: () => void) {
+  try {
+    listener();
+  } catch (error) {
+    setTimeout(() => {
+      throw error;
+    });
+  }
+}
+
+export interface Mutate {
+  <T>(
+    key: ResourceKey,
+    updater: AsyncUpdater<T>,
+    options?: MutateOptions<T>
+  ): Promise<boolean>;
+  <T>(
+    key: ResourceKey,
+    updater: SyncUpdater<T>,
+    options?: MutateOptions<T>
+  ): boolean;
+}
+
+export type InflightRequest = {
+  id: number;
+  controller: AbortController;
+  queued?: Promise<void>;
+  /** Set when the key is invalidated while the request is in flight. */
+  invalidated?: boolean;
+};
+
+export type MutationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+export type MutationState<TData, TVariables> = {
+  id: number;
+  status: Exclude<MutationStatus, 'idle'>;
+  variables: TVariables;
+  data?: TData;
+  error?: Error;
+};
+
+export type Poller = {
+  /** Seconds until the next refresh given the latest data; `0` disables it. */
+  interval: (data: unknown) => number;
+  refreshWhenHidden?: boolean;
+  revalidate: () => void;
+};
 
 export interface ResourceStore {
   cache: Map<string, Resource<unknown>>;
   subscribers: Map<string, Set<() => void>>;
+  /** Original key values by their hash, for matching structured keys. */
+  keys: Map<string, ResourceKey>;
+  requests: Map<string, InflightRequest>;
+  /** Resolves once persisted resources have been restored. */
+  restored: Promise<void>;
   subscribe: (key: string, listener: () => void) => () => void;
-  notifySubscribers: (key: string) => void;
-  mutate: <T>(key: string, data: T) => boolean;
-  getResourceByKey: <T>(key: string) => Resource<T> | undefined;
+  /** Notifies the subscribers of `key`, and `watch` listeners unless `watchers` is `false`. */
+  notifySubscribers: (key: string, options?: { watchers?: boolean }) => void;
+  /** Listens to changes of every key. */
+  watch: (listener: (key: string, change: StoreChange) => void) => () => void;
+  /** Listens to the lifecycle events of every key. */
+  onEvent: (listener: (event: StoreEvent) => void) => () => void;
+  emit: (event: StoreEvent) => void;
+  setResource: <T>(key: string, resource: Resource<T>) => void;
+  /** Marks a key as recently used, so `maxEntries` evicts it last. */
+  touch: (key: string) => void;
+  setGcTime: (key: string, gcTime: number) => void;
+  evict: (key: ResourceKey) => boolean;
+  poll: (key: string, poller: Poller) => () => void;
+  listen: (
+    event: RevalidateEvent,
+    key: string,
+    revalidate: () => void
+  ) => () => void;
+  revalidator: (key: string, revalidate: () => void) => () => void;
+  /** Records the keys `key` is derived from, replacing the previous ones. */
+  setDependencies: (key: string, parents: string[]) => void;
+  invalidate: (
+    filter: InvalidateFilter,
+    options?: InvalidateOptions
+  ) => Promise<void>;
+  mutate: Mutate;
+  /** States of the `useMutation` calls tracked under `key`, oldest first. */
+  getMutations: <TData, TVariables>(
+    key: string
+  ) => MutationState<TData, TVariables>[];
+  /** Records the state of a call and notifies the subscribers of `key`. */
+  setMutation: <TData, TVariables>(
+    key: string,
+    mutation: MutationState<TData, TVariables>
+  ) => void;
+  resetMutations: (key: string) => void;
+  cancel: (key: ResourceKey) => boolean;
+  nextRequestId: () => number;
+  getResourceByKey: <T>(key: ResourceKey) => Resource<T> | undefined;
   isSettled: <T>(
     resource: Resource<T> | undefined
   ) => resource is Extract<Resource<T>, { $version: number }>;
 }
 
-export function createResourceStore(): ResourceStore {
+export function createResourceStore(
+  options: ResourceStoreOptions = {}
+): ResourceStore {
   const cache = new Map<string, Resource<unknown>>();
   const subscribers = new Map<string, Set<() => void>>();
+  const keys = new Map<string, ResourceKey>();
+  const requests = new Map<string, InflightRequest>();
+  const gcTimes = new Map<string, number>();
+  const gcTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const pollers = new Map<string, Set<Poller>>();
+  const pollTimers = new Map<
+    string,
+    { timer: ReturnType<typeof setTimeout>; due: number }
+  >();
+  const maxEntries = options.maxEntries ?? Infinity;
+  const eventSources: Record<RevalidateEvent, RevalidateEventSource> = {
+    focus: options.focusSource ?? focusEventSource,
+    reconnect: options.reconnectSource ?? reconnectEventSource,
+  };
+  const eventListeners: Record<
+    RevalidateEvent,
+    Map<string, Set<() => void>>
+  > = { focus: new Map(), reconnect: new Map() };
+  const detachEvents: Partial<Record<RevalidateEvent, () => void>> = {};
+  const lastEvents: Record<RevalidateEvent, number> = {
+    focus: -Infinity,
+    reconnect: -Infinity,
+  };
+  const revalidators = new Map<string, Set<() => void>>();
+  const mutations = new Map<string, number>();
+  const mutationStates = new Map<string, MutationState<unknown, unknown>[]>();
+  const dependencies = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+  let lastRequestId = 0;
+  const watchers = new Set<(key: string, change: StoreChange) => void>();
+  const eventHandlers = new Set<(event: StoreEvent) => void>();
 
   function subscribe(key: string, listener: () => void) {
+    cancelGc(key);
     subscribers.set(
       key,
       subscribers.get(key)?.add(listener) ?? new Set([listener])
     );
 
-    return () => subscribers.get(key)?.delete(listener);
+    return () => {
+      const _subscribers = subscribers.get(key);
+      _subscribers?.delete(listener);
+      if (_subscribers?.size === 0) {
+        subscribers.delete(key);
+        scheduleGc(key);
+      }
+    };
+  }
+
+  function isUnused(key: string) {
+    return !subscribers.get(key)?.size && !requests.has(key);
+  }
+
+  function scheduleGc(key: string) {
+    const gcTime = gcTimes.get(key) ?? options.gcTime ?? DEFAULT_GC_TIME;
+    // Server stores live for a single request; timers would only keep them alive.
+    if (
+      isServer() ||
+      gcTimers.has(key) ||
+      subscribers.get(key)?.size ||
+      gcTime === Infinity
+    ) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      gcTimers.delete(key);
+      if (subscribers.get(key)?.size) return;
+      // Keys are never collected mid-request; try again once it settles.
+      if (requests.has(key)) scheduleGc(key);
+      else evictHash(key);
+    }, seconds(gcTime));
+    gcTimers.set(key, timer);
+  }
+
+  function cancelGc(key: string) {
+    clearTimeout(gcTimers.get(key));
+    gcTimers.delete(key);
+  }
+
+  function setGcTime(key: string, gcTime: number) {
+    gcTimes.set(key, gcTime);
+  }
+
+  function evict(resourceKey: ResourceKey): boolean {
+    return evictHash(hashKey(resourceKey));
+  }
+
+  function evictHash(key: string): boolean {
+    const resource = cache.get(key);
+    const originalKey = keys.get(key) ?? key;
+    cancelGc(key);
+    gcTimes.delete(key);
+    keys.delete(key);
+    mutationStates.delete(key);
+    if (!resource) return false;
+
+    cache.delete(key);
+    setDependencies(key, []);
+    callListener(() => options.onEvict?.(originalKey, resource));
+    emit({
+      type: 'evict',
+      key: originalKey,
+      version: isSettled(resource) ? resource.$version : undefined,
+    });
+    return true;
+  }
+
+  function readData(key: string) {
+    const resource = cache.get(key);
+    return hasResult(resource) ? resource.result : undefined;
+  }
+
+  function poll(key: string, poller: Poller) {
+    pollers.set(key, pollers.get(key)?.add(poller) ?? new Set([poller]));
+    const scheduled = pollTimers.get(key);
+    const interval = poller.interval(readData(key));
+    if (
+      !scheduled ||
+      (interval > 0 && Date.now() + seconds(interval) < scheduled.due)
+    ) {
+      schedulePoll(key);
+    }
+
+    return () => {
+      const _pollers = pollers.get(key);
+      _pollers?.delete(poller);
+      if (_pollers?.size) return;
+
+      pollers.delete(key);
+      clearTimeout(pollTimers.get(key)?.timer);
+      pollTimers.delete(key);
+    };
+  }
+
+  function schedulePoll(key: string) {
+    clearTimeout(pollTimers.get(key)?.timer);
+    pollTimers.delete(key);
+    const _pollers = pollers.get(key);
+    if (!_pollers) return;
+
+    const data = readData(key);
+    let interval = Infinity;
+    _pollers.forEach(poller => {
+      const next = poller.interval(data);
+      if (next > 0) interval = Math.min(interval, next);
+    });
+    if (interval === Infinity) return;
+
+    const timer = setTimeout(() => {
+      pollTimers.delete(key);
+      const active = Array.from(_pollers);
+      const paused =
+        isDocumentHidden() && !active.some(poller => poller.refreshWhenHidden);
+      // An in-flight request reschedules polling once it settles.
+      if (requests.has(key)) return;
+      if (paused || !active.length) schedulePoll(key);
+      else active[0].revalidate();
+    }, seconds(interval));
+    pollTimers.set(key, { timer, due: Date.now() + seconds(interval) });
+  }
+
+  function listen(event: RevalidateEvent, key: string, revalidate: () => void) {
+    const listeners = eventListeners[event];
+    listeners.set(
+      key,
+      listeners.get(key)?.add(revalidate) ?? new Set([revalidate])
+    );
+    if (!detachEvents[event]) {
+      detachEvents[event] = eventSources[event](() => dispatchEvent(event));
+    }
+
+    return () => {
+      const _listeners = listeners.get(key);
+      _listeners?.delete(revalidate);
+      if (!_listeners?.size) listeners.delete(key);
+      if (listeners.size) return;
+
+      detachEvents[event]?.();
+      delete detachEvents[event];
+    };
+  }
+
+  function dispatchEvent(event: RevalidateEvent) {
+    const throttle = options.eventThrottle ?? DEFAULT_EVENT_THROTTLE;
+    if (Date.now() - lastEvents[event] < seconds(throttle)) return;
+    lastEvents[event] = Date.now();
+
+    // One revalidation per key; listeners decide whether the key is stale.
+    eventListeners[event].forEach((listeners, key) => {
+      if (!subscribers.get(key)?.size) return;
+      Array.from(listeners)[0]();
+    });
+  }
+
+  function revalidator(key: string, revalidate: () => void) {
+    revalidators.set(
+      key,
+      revalidators.get(key)?.add(revalidate) ?? new Set([revalidate])
+    );
+
+    return () => {
+      const _revalidators = revalidators.get(key);
+      _revalidators?.delete(revalidate);
+      if (!_revalidators?.size) revalidators.delete(key);
+    };
+  }
+
+  function setDependencies(key: string, parents: string[]) {
+    dependencies.get(key)?.forEach(parent => {
+      const children = dependents.get(parent);
+      children?.delete(key);
+      if (!children?.size) dependents.delete(parent);
+    });
+    if (!parents.length) {
+      dependencies.delete(key);
+      return;
+    }
+
+    dependencies.set(key, new Set(parents));
+    parents.forEach(parent =>
+      dependents.set(parent, dependents.get(parent)?.add(key) ?? new Set([key]))
+    );
   }
 
-  function notifySubscribers(key: string) {
+  function invalidateDependents(key: string) {
+    dependents
+      .get(key)
+      ?.forEach(child => invalidate(keys.get(child) ?? child, { exact: true }));
+  }
+
+  function matchesFilter(
+    filter: InvalidateFilter,
+    { exact = false }: InvalidateOptions,
+    key: string,
+    resource: Resource<unknown>
+  ) {
+    const resourceKey = keys.get(key) ?? key;
+    if (typeof filter === 'function') return filter(resourceKey, resource);
+    if (exact) return hashKey(filter) === key;
+    return matchesKeyPrefix(filter, resourceKey);
+  }
+
+  function invalidate(
+    filter: InvalidateFilter,
+    invalidateOptions: InvalidateOptions = {}
+  ): Promise<void> {
+    const settling: Promise<unknown>[] = [];
+    const matched = new Set<string>();
+    cache.forEach((resource, key) => {
+      if (matchesFilter(filter, invalidateOptions, key, resource)) {
+        matched.add(key);
+      }
+    });
+    // Resources derived from an invalidated one are invalidated with it;
+    // keys added while iterating are visited as well.
+    matched.forEach(key =>
+      dependents.get(key)?.forEach(child => matched.add(child))
+    );
+
+    matched.forEach(key => {
+      const resource = cache.get(key);
+      if (!resource) return;
+
+      // Unobserved keys are refetched by their next `fetchResource` call.
+      // A request in flight may have read the data before the change, so
+      // its result lands invalidated as well.
+      if (resource.status === 'fulfilled' || resource.status === 'rejected') {
+        cache.set(key, { ...resource, invalidated: true });
+      }
+      const request = requests.get(key);
+      if (request) request.invalidated = true;
+      watchers.forEach(watcher => watcher(key, 'invalidate'));
+
+      const _revalidators = revalidators.get(key);
+      if (!subscribers.get(key)?.size || !_revalidators?.size) return;
+      Array.from(_revalidators)[0]();
+
+      const next = cache.get(key);
+      if (next && 'suspender' in next) settling.push(next.suspender);
+    });
+
+    return Promise.allSettled(settling).then(() => undefined);
+  }
+
+  function touch(key: string) {
+    const resource = cache.get(key);
+    if (!resource) return;
+    // Re-inserting keeps the map ordered from least to most recently used.
+    cache.delete(key);
+    cache.set(key, resource);
+  }
+
+  function setResource<T>(key: string, resource: Resource<T>) {
+    cache.delete(key);
+    cache.set(key, resource);
+    cancelGc(key);
+    scheduleGc(key);
+    if (pollers.has(key) && !requests.has(key)) schedulePoll(key);
+
+    if (cache.size <= maxEntries) return;
+    for (const candidate of cache.keys()) {
+      if (cache.size <= maxEntries) break;
+      if (candidate !== key && isUnused(candidate)) evictHash(candidate);
+    }
+  }
+
+  function notifySubscribers(
+    key: string,
+    { watchers: notifyWatchers = true }: { watchers?: boolean } = {}
+  ) {
     const _subscribers = subscribers.get(key);
     if (_subscribers) {
       _subscribers.forEach(sub => sub());
     }
+    if (!notifyWatchers) return;
+    watchers.forEach(watcher => watcher(key, 'update'));
   }
 
-  function mutate<T>(key: string, data: T): boolean {
-    const resource = cache.get(key) as Resource<T>;
-    if (
-      resource &&
-      resource.status !== 'pending' &&
-      resource.status !== 'revalidating'
-    ) {
-      const newResource: SuccessfullResource<T> = {
-        status: 'fulfilled',
-        result: data,
-        timestamp: Date.now(),
-        $version: resource.$version + 1,
-      };
-
-      cache.set(key, newResource);
-      notifySubscribers(key);
+  function watch(listener: (key: string, change: StoreChange) => void) {
+    watchers.add(listener);
+    return () => {
+      watchers.delete(listener);
+    };
+  }
+
+  function onEvent(listener: (event: StoreEvent) => void) {
+    eventHandlers.add(listener);
+    return () => {
+      eventHandlers.delete(listener);
+    };
+  }
+
+  function emit(event: StoreEvent) {
+    if (event.type === 'fetch:success') {
+      const data = readData(hashKey(event.key));
+      callListener(() => options.onSuccess?.(data, event.key));
+    } else if (event.type === 'fetch:error') {
+      const { error } = event;
+      callListener(() => options.onError?.(error, event.key));
+    }
+    eventHandlers.forEach(handler => callListener(() => handler(event)));
+  }
+
+  function emitMutate(key: string, error?: Error) {
+    const resource = cache.get(key);
+    emit({
+      type: 'mutate',
+      key: keys.get(key) ?? key,
+      version: isSettled(resource) ? resource.$version : undefined,
+      ...(error && { error }),
+    });
+  }
+
+  function writeData<T>(key: string, data: T) {
+    const current = cache.get(key);
+    const newResource: SuccessfullResource<T> = {
+      status: 'fulfilled',
+      result: data,
+      timestamp: Date.now(),
+      $version: isSettled(current) ? current.$version + 1 : 0,
+    };
+
+    setResource(key, newResource);
+    notifySubscribers(key);
+  }
+
+  function mutate<T>(
+    resourceKey: ResourceKey,
+    updater: AsyncUpdater<T>,
+    options?: MutateOptions<T>
+  ): Promise<boolean>;
+  function mutate<T>(
+    resourceKey: ResourceKey,
+    updater: SyncUpdater<T>,
+    options?: MutateOptions<T>
+  ): boolean;
+  function mutate<T>(
+    resourceKey: ResourceKey,
+    updater: SyncUpdater<T> | AsyncUpdater<T>,
+    mutateOptions: MutateOptions<T> = {}
+  ): boolean | Promise<boolean> {
+    const key = hashKey(resourceKey);
+    const resource = cache.get(key) as Resource<T> | undefined;
+    if (!resource) return skipMutation(updater);
+
+    const current = hasResult(resource) ? resource.result : undefined;
+    const next =
+      typeof updater === 'function'
+        ? (updater as (current: T | undefined) => T | Promise<T>)(current)
+        : updater;
+    const isAsync = next != null && isPromise<T>(next);
+
+    // The mutation supersedes whatever is in flight for this key.
+    cancelHash(key);
+    const mutationId = nextRequestId();
+    mutations.set(key, mutationId);
+    const revalidate = (written: boolean) => {
+      if (mutateOptions.revalidate) {
+        invalidate(resourceKey, { exact: true });
+      }
+      // Dependent resources are refetched with the new data.
+      else if (written) invalidateDependents(key);
+    };
+
+    if (!isAsync) {
+      writeData(key, next);
+      emitMutate(key);
+      revalidate(true);
       return true;
     }
-    return false;
+
+    const snapshot = isSettled(resource)
+      ? settledResource(resource)
+      : undefined;
+    const { optimisticData } = mutateOptions;
+    if (optimisticData !== undefined) {
+      writeData(
+        key,
+        typeof optimisticData === 'function'
+          ? (optimisticData as (current: T | undefined) => T)(current)
+          : optimisticData
+      );
+    }
+
+    const isLatest = () => mutations.get(key) === mutationId;
+    return next.then(
+      data => {
+        if (!isLatest()) return false;
+        mutations.delete(key);
+        cancelHash(key);
+        writeData(key, data);
+        emitMutate(key);
+        revalidate(true);
+        return true;
+      },
+      error => {
+        if (isLatest()) {
+          mutations.delete(key);
+          if (mutateOptions.rollbackOnError ?? true) {
+            cancelHash(key);
+            if (snapshot) setResource(key, snapshot);
+            else cache.delete(key);
+            notifySubscribers(key);
+          }
+          emitMutate(key, toError(error));
+          revalidate(false);
+        }
+        throw error;
+      }
+    );
   }
 
-  function getResourceByKey<T>(key: string): Resource<T> | undefined {
-    return cache.get(key) as Resource<T> | undefined;
+  function getMutations<TData, TVariables>(key: string) {
+    return (mutationStates.get(key) ?? NO_MUTATIONS) as MutationState<
+      TData,
+      TVariables
+    >[];
+  }
+
+  function setMutation<TData, TVariables>(
+    key: string,
+    mutation: MutationState<TData, TVariables>
+  ) {
+    const current = getMutations<TData, TVariables>(key);
+    const index = current.findIndex(({ id }) => id === mutation.id);
+    // Calls dropped by `resetMutations` are no longer tracked.
+    if (index === -1 && mutation.status !== 'pending') return;
+    mutationStates.set(
+      key,
+      index === -1
+        ? [...current, mutation]
+        : current.map(state => (state.id === mutation.id ? mutation : state))
+    );
+    // Mutation states are not resources, so watchers are not told about them.
+    notifySubscribers(key, { watchers: false });
+  }
+
+  function resetMutations(key: string) {
+    if (!mutationStates.delete(key)) return;
+    notifySubscribers(key, { watchers: false });
+  }
+
+  function cancel(resourceKey: ResourceKey): boolean {
+    return cancelHash(hashKey(resourceKey));
+  }
+
+  function cancelHash(key: string): boolean {
+    const request = requests.get(key);
+    if (!request) return false;
+
+    requests.delete(key);
+    request.controller.abort();
+    return true;
+  }
+
+  function nextRequestId() {
+    return ++lastRequestId;
+  }
+
+  function getResourceByKey<T>(key: ResourceKey): Resource<T> | undefined {
+    return cache.get(hashKey(key)) as Resource<T> | undefined;
   }
 
   function isSettled<T>(
@@ -63,15 +726,42 @@ export function createResourceStore(): ResourceStore {
     return !!resource && 'timestamp' in resource;
   }
 
-  return {
+  const store: ResourceStore = {
     cache,
     subscribers,
+    keys,
+    requests,
+    restored: Promise.resolve(),
     subscribe,
     notifySubscribers,
+    watch,
+    onEvent,
+    emit,
+    setResource,
+    touch,
+    setGcTime,
+    evict,
+    poll,
+    listen,
+    revalidator,
+    setDependencies,
+    invalidate,
     mutate,
+    getMutations,
+    setMutation,
+    resetMutations,
+    cancel,
+    nextRequestId,
     getResourceByKey,
     isSettled,
   };
+
+  if (options.persist) {
+    const persister = createPersister(store, options.persist);
+    store.restored = Promise.resolve(persister.restore()).catch(() => {});
+  }
+
+  return store;
 }
 
 export const defaultResourceStore = createResourceStore();
@@ -86,3 +776,5 @@ export const defaultResourceStore = createResourceStore();
 export const cache = defaultResourceStore.cache;
 export const subscribers = defaultResourceStore.subscribers;
 export const mutate = defaultResourceStore.mutate;
+export const cancel = defaultResourceStore.cancel;
+export const invalidate = defaultResourceStore.invalidate;
@@ -0,0 +1,44 @@
+import { seconds } from './utils/time';
+
+export type RetryOption =
+  | number
+  | ((failureCount: number, error: Error) => boolean);
+
+export type RetryDelayOption =
+  | number
+  | 'exponential'
+  | ((failureCount: number, error: Error) => number);
+
+const MAX_EXPONENTIAL_DELAY = 30;
+
+/**
+ * Decides whether another attempt should be made after `failureCount`
+ * consecutive failures.
+ */
+export function shouldRetry(
+  retry: RetryOption | undefined,
+  failureCount: number,
+  error: Error
+): boolean {
+  if (typeof retry === 'function') return retry(failureCount, error);
+  return failureCount <= (retry ?? 0);
+}
+
+/**
+ * Returns the delay in milliseconds before the next attempt. Option values
+ * are expressed in seconds, like `ttl`.
+ */
+export function getRetryDelay(
+  retryDelay: RetryDelayOption | undefined,
+  failureCount: number,
+  error: Error
+): number {
+  if (typeof retryDelay === 'function') {
+    return seconds(retryDelay(failureCount, error));
+  }
+  if (typeof retryDelay === 'number') return seconds(retryDelay);
+
+  return seconds(
+    Math.min(Math.pow(2, failureCount - 1), MAX_EXPONENTIAL_DELAY)
+  );
+}
@@ -0,0 +1,127 @@
+import { PersistedResource, StorageAdapter } from './persistence';
+
+const DEFAULT_PREFIX = 'use-resource:';
+
+/**
+ * Keeps persisted resources in a `Map`, e.g. for tests or to share a cache
+ * between stores of the same page.
+ */
+export function createMemoryStorage(
+  entries = new Map<string, PersistedResource>()
+): StorageAdapter {
+  return {
+    get: key => entries.get(key),
+    set: (key, value) => {
+      entries.set(key, value);
+    },
+    delete: key => {
+      entries.delete(key);
+    },
+    keys: () => Array.from(entries.keys()),
+  };
+}
+
+export type LocalStorageOptions = {
+  /** Storage to write to. Default: `window.localStorage` */
+  storage?: Storage;
+  /** Prefix of every item written. Default: `'use-resource:'` */
+  prefix?: string;
+};
+
+/**
+ * Persists resources as JSON in `localStorage`. Without a `Storage`, e.g. on
+ * the server, nothing is read or written.
+ */
+export function createLocalStorage({
+  storage = typeof localStorage === 'undefined' ? undefined : localStorage,
+  prefix = DEFAULT_PREFIX,
+}: LocalStorageOptions = {}): StorageAdapter {
+  return {
+    get: key => {
+      const item = storage?.getItem(prefix + key);
+      return item ? (JSON.parse(item) as PersistedResource) : undefined;
+    },
+    set: (key, value) => storage?.setItem(prefix + key, JSON.stringify(value)),
+    delete: key => storage?.removeItem(prefix + key),
+    keys: () => {
+      const keys: string[] = [];
+      for (let index = 0; index < (storage?.length ?? 0); index++) {
+        const item = storage?.key(index);
+        if (item?.startsWith(prefix)) keys.push(item.slice(prefix.length));
+      }
+      return keys;
+    },
+  };
+}
+
+export type IndexedDBStorageOptions = {
+  /** IndexedDB implementation. Default: `window.indexedDB` */
+  indexedDB?: IDBFactory;
+  /** Default: `'use-resource'` */
+  databaseName?: string;
+  /** Default: `'resources'` */
+  storeName?: string;
+};
+
+/**
+ * Persists resources in an IndexedDB object store. Every operation is
+ * asynchronous, so restored resources are available once `store.restored`
+ * resolves.
+ */
+export function createIndexedDBStorage({
+  indexedDB = globalThis.indexedDB,
+  databaseName = 'use-resource',
+  storeName = 'resources',
+}: IndexedDBStorageOptions = {}): StorageAdapter {
+  let database: Promise<IDBDatabase> | undefined;
+
+  function open() {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  }
+
+  function run<T>(
+    mode: IDBTransactionMode,
+    operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return open().then(
+      db =>
+        new Promise<T>((resolve, reject) => {
+          const objectStore = db
+            .transaction(storeName, mode)
+            .objectStore(storeName);
+          const request = operation(objectStore);
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+  }
+
+  return {
+    get: key =>
+      run<PersistedResource | undefined>('readonly', objectStore =>
+        objectStore.get(key)
+      ),
+    set: (key, value) =>
+      run('readwrite', objectStore => objectStore.put(value, key)).then(
+        () => undefined
+      ),
+    delete: key =>
+      run('readwrite', objectStore => objectStore.delete(key)).then(
+        () => undefined
+      ),
+    keys: () =>
+      run('readonly', objectStore => objectStore.getAllKeys()).then(keys =>
+        keys.map(String)
+      ),
+  };
+}
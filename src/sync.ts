@@ -0,0 +1,187 @@
+import { ResourceKey } from './types';
+import { hashKey } from './resource-key';
+import { ResourceStore } from './resource-store';
+import {
+  DehydratedResource,
+  dehydrateResource,
+  hydrateResource,
+} from './hydration';
+
+/**
+ * `origin` identifies the store that wrote an update. Updates are ordered by
+ * the write timestamp, and writes of the same millisecond by their origin.
+ */
+export type SyncMessage =
+  | { type: 'update'; resource: DehydratedResource; origin: string }
+  | { type: 'invalidate'; key: ResourceKey };
+
+/** Carries sync messages between stores, e.g. of different tabs. */
+export type SyncTransport = {
+  postMessage: (message: SyncMessage) => void;
+  subscribe: (listener: (message: SyncMessage) => void) => () => void;
+  close?: () => void;
+};
+
+export type SyncOptions = {
+  /** Default: a `BroadcastChannel` named `'use-resource'` */
+  transport?: SyncTransport;
+  /** Whether changes of a key are shared. Default: every key */
+  shouldSync?: (key: ResourceKey) => boolean;
+};
+
+/**
+ * Creates a transport over a `BroadcastChannel`. Where `BroadcastChannel` is
+ * unavailable, e.g. on the server, messages are dropped.
+ */
+export function createBroadcastChannelTransport(
+  name = 'use-resource'
+): SyncTransport {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { postMessage: () => {}, subscribe: () => () => {} };
+  }
+
+  const channel = new BroadcastChannel(name);
+  return {
+    postMessage: message => channel.postMessage(message),
+    subscribe: listener => {
+      const handleMessage = (event: MessageEvent<SyncMessage>) =>
+        listener(event.data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Shares fulfilled writes, mutations and invalidations of a store with the
+ * stores on the other end of the transport, and applies theirs. A remote
+ * update is only applied when it was written after the local resource.
+ *
+ * @param store - The store to keep in sync
+ * @param options.transport - Message transport. Default: a `BroadcastChannel`
+ * @param options.shouldSync - Filter over the original key
+ * @returns A function that stops syncing
+ *
+ * @example
+ * ```ts
+ * const store = createResourceStore();
+ * syncStore(store, { shouldSync: key => key !== 'session' });
+ * ```
+ */
+export function syncStore(store: ResourceStore, options: SyncOptions = {}) {
+  const transport = options.transport ?? createBroadcastChannelTransport();
+  const shared = new WeakSet<object>();
+  const versions = new Map<string, number>();
+  // Origins of the remote writes applied to the store, with their timestamp.
+  const origins = new Map<string, { timestamp: number; origin: string }>();
+  const id = Math.random().toString(36).slice(2);
+  let applying = false;
+
+  function markShared(key: string) {
+    const resource = store.cache.get(key);
+    if (!store.isSettled(resource)) return;
+    shared.add(resource);
+    versions.set(key, resource.$version);
+  }
+
+  // `$version` counts the writes of a single store, so it cannot order
+  // writes of different stores.
+  function isNewer(
+    key: string,
+    remote: { timestamp: number; origin: string },
+    current: { timestamp: number }
+  ) {
+    if (remote.timestamp !== current.timestamp) {
+      return remote.timestamp > current.timestamp;
+    }
+    // Writes of the same millisecond are ordered by origin; messages of a
+    // single origin arrive in the order they were written.
+    const applied = origins.get(key);
+    const origin =
+      applied?.timestamp === current.timestamp ? applied.origin : id;
+    return remote.origin >= origin;
+  }
+
+  function applyUpdate(resource: DehydratedResource, origin: string) {
+    const key = hashKey(resource.key);
+    const current = store.cache.get(key);
+    const local = {
+      ...resource,
+      // The local version keeps counting, so it never goes back.
+      $version: store.isSettled(current)
+        ? current.$version + 1
+        : resource.$version,
+    };
+    const remote = { timestamp: resource.timestamp, origin };
+    if (store.isSettled(current) && !isNewer(key, remote, current)) return;
+
+    // Like a local mutation, a newer write supersedes the request in flight,
+    // whose response was read before it.
+    store.cancel(resource.key);
+    if (
+      hydrateResource(store, local, settled => isNewer(key, remote, settled))
+    ) {
+      origins.set(key, { timestamp: resource.timestamp, origin });
+      markShared(key);
+    }
+  }
+
+  function applyRemote(message: SyncMessage) {
+    applying = true;
+    try {
+      if (message.type === 'invalidate') {
+        store.invalidate(message.key, { exact: true });
+      } else {
+        applyUpdate(message.resource, message.origin);
+      }
+    } finally {
+      applying = false;
+    }
+  }
+
+  const unsubscribe = transport.subscribe(message => {
+    const key =
+      message.type === 'invalidate' ? message.key : message.resource.key;
+    if (options.shouldSync && !options.shouldSync(key)) return;
+    applyRemote(message);
+  });
+
+  const unwatch = store.watch((key, change) => {
+    const resourceKey = store.keys.get(key) ?? key;
+    if (applying) return;
+    if (options.shouldSync && !options.shouldSync(resourceKey)) return;
+
+    if (change === 'invalidate') {
+      transport.postMessage({ type: 'invalidate', key: resourceKey });
+      return;
+    }
+
+    // Subscribers are notified several times per write; share each write once.
+    const resource = store.cache.get(key);
+    if (resource?.status !== 'fulfilled') return;
+    const lastVersion = versions.get(key) ?? -1;
+    if (shared.has(resource) && resource.$version >= lastVersion) return;
+    markShared(key);
+    if (resource.$version < lastVersion) {
+      // A rollback restores an older version, which other stores would ignore.
+      transport.postMessage({ type: 'invalidate', key: resourceKey });
+      return;
+    }
+
+    const dehydrated = dehydrateResource(resourceKey, resource);
+    if (dehydrated) {
+      transport.postMessage({
+        type: 'update',
+        resource: dehydrated,
+        origin: id,
+      });
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    unwatch();
+    transport.close?.();
+  };
+}
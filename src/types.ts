@@ -1,28 +1,41 @@
 type BaseResource = {
   timestamp: number;
   $version: number;
+  /** Set by `invalidate`; the next fetch revalidates regardless of TTL. */
+  invalidated?: boolean;
+};
+
+type FailureState = {
+  failureCount?: number;
+  failureReason?: Error;
 };
 
 export type Resource<T> =
   | ({
       error: Error;
+      /** Last successful result, kept when a revalidation fails. */
+      result?: T;
       status: Extract<ResourceStatus, 'rejected'>;
-    } & BaseResource)
+    } & BaseResource &
+      FailureState)
   | ({
       result: T;
       status: Extract<ResourceStatus, 'fulfilled'>;
-    } & BaseResource)
-  | {
+    } & BaseResource &
+      FailureState)
+  | ({
       status: Extract<ResourceStatus, 'pending'>;
       suspender: Promise<T>;
-    }
+    } & FailureState)
   | ({
       result: T;
       status: Extract<ResourceStatus, 'revalidating'>;
       suspender: Promise<T>;
-    } & BaseResource);
+    } & BaseResource &
+      FailureState);
 
 export type ResourceStatus =
+  | 'idle'
   | 'pending'
   | 'fulfilled'
   | 'rejected'
@@ -36,6 +49,19 @@ export type ResourceResult<T = unknown> = {
 
 export type MightBePromise<T> = T | Promise<T>;
 
+export type ResourceKey =
+  | string
+  | readonly unknown[]
+  | { readonly [property: string]: unknown };
+
+export type FetchContext = {
+  signal: AbortSignal;
+  /** Results of the `dependsOn` resources, in the same order. */
+  dependencies: unknown[];
+};
+
+export type Fetcher<T> = (context: FetchContext) => MightBePromise<T>;
+
 export type FullfiledResult<T> = Extract<Resource<T>, { status: 'fulfilled' }>;
 export type ErroredResult<T> = Extract<Resource<T>, { status: 'rejected' }>;
 export type RevalidatingResource<T> = Extract<
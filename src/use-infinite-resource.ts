@@ -0,0 +1,228 @@
+import { useCallback, useRef, useState } from 'react';
+import { FetchContext, MightBePromise, Resource, ResourceKey } from './types';
+import { hashKey } from './resource-key';
+import { hasResult } from './resource-state';
+import { isPromise } from './utils';
+import { useResourceContext } from './resource-provider';
+import useResource, { UseResourceOptions } from './use-resource';
+
+/** All pages of an infinite resource, stored under a single cache entry. */
+export type InfiniteData<TPage, TParam> = {
+  pages: TPage[];
+  pageParams: TParam[];
+};
+
+export type PageFetcher<TPage, TParam> = (
+  pageParam: TParam,
+  context: FetchContext
+) => MightBePromise<TPage>;
+
+export type UseInfiniteResourceOptions<TPage, TParam> = UseResourceOptions<
+  InfiniteData<TPage, TParam>
+> & {
+  /** Page param of the first page. Default: `undefined` */
+  initialPageParam?: TParam;
+  /** Param of the page after `lastPage`, or `undefined` when there is none. */
+  getNextPageParam: (lastPage: TPage, pages: TPage[]) => TParam | undefined;
+  /** Param of the page before `firstPage`, or `undefined` when there is none. */
+  getPreviousPageParam?: (
+    firstPage: TPage,
+    pages: TPage[]
+  ) => TParam | undefined;
+};
+
+type Direction = 'next' | 'previous';
+
+/**
+ * Hook for paginated resources that keeps every loaded page under one key.
+ *
+ * @template TPage - The type of a single page
+ * @template TParam - The type of the page param, e.g. a cursor
+ *
+ * @param key - Unique identifier for the resource, as for `useResource`
+ * @param fetchPage - Function that loads the page for a page param.
+ *   Receives the param and `{ signal }`.
+ * @param options - Options of `useResource`, plus:
+ * @param options.getNextPageParam - Returns the param of the next page, or `undefined` when there is none
+ * @param options.getPreviousPageParam - Returns the param of the previous page, or `undefined` when there is none
+ * @param options.initialPageParam - Param of the first page. Default: `undefined`
+ *
+ * @returns The state of `useResource`, plus:
+ * - `pages` - Every loaded page, in order
+ * - `pageParams` - The param each page was loaded with
+ * - `fetchNextPage` / `fetchPreviousPage` - Load one more page at the end or start
+ * - `hasNextPage` / `hasPreviousPage` - Whether there is a page to load
+ * - `isFetchingNextPage` / `isFetchingPreviousPage` - `true` while a page is loading
+ *
+ * `refetch` reloads every loaded page in order, deriving each param from the
+ * freshly loaded page before it. The first page suspends like `useResource`.
+ *
+ * @example
+ * ```tsx
+ * function Feed() {
+ *   const { pages, fetchNextPage, hasNextPage } = useInfiniteResource(
+ *     'feed',
+ *     (cursor?: string) => api.feed(cursor),
+ *     { getNextPageParam: lastPage => lastPage.nextCursor }
+ *   );
+ *
+ *   return (
+ *     <>
+ *       {pages.flatMap(page => page.items).map(item => <Item key={item.id} {...item} />)}
+ *       {hasNextPage && <button onClick={fetchNextPage}>Load more</button>}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export default function useInfiniteResource<TPage, TParam = unknown>(
+  resourceKey: ResourceKey | null,
+  fetchPage: PageFetcher<TPage, TParam>,
+  options: UseInfiniteResourceOptions<TPage, TParam>
+) {
+  const { store, fetchResource } = useResourceContext();
+  const key = resourceKey === null ? null : hashKey(resourceKey);
+  const resourceKeyRef = useRef(resourceKey);
+  resourceKeyRef.current = resourceKey;
+  const [fetchingDirection, setFetchingDirection] = useState<Direction | null>(
+    null
+  );
+  const lastFetchMoreRef = useRef(0);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const readData = useCallback(() => {
+    const resource =
+      key === null
+        ? undefined
+        : (store.cache.get(key) as
+            | Resource<InfiniteData<TPage, TParam>>
+            | undefined);
+    return hasResult(resource) ? resource.result : undefined;
+  }, [store, key]);
+
+  // Loads the first page, or reloads every loaded page in order.
+  const fetchPages = (
+    context: FetchContext
+  ): Promise<InfiniteData<TPage, TParam>> => {
+    const previous = readData();
+    const count = previous?.pages.length || 1;
+    const { getNextPageParam, initialPageParam } = optionsRef.current;
+    const firstParam = previous
+      ? previous.pageParams[0]
+      : (initialPageParam as TParam);
+
+    function loadFrom(
+      data: InfiniteData<TPage, TParam>,
+      param: TParam | undefined
+    ): Promise<InfiniteData<TPage, TParam>> {
+      if (data.pages.length >= count || param === undefined) {
+        return Promise.resolve(data);
+      }
+
+      return Promise.resolve(fetchPageRef.current(param, context)).then(
+        page => {
+          const pages = [...data.pages, page];
+          return loadFrom(
+            { pages, pageParams: [...data.pageParams, param] },
+            getNextPageParam(page, pages)
+          );
+        }
+      );
+    }
+
+    return Promise.resolve(fetchPageRef.current(firstParam, context)).then(
+      page =>
+        loadFrom(
+          { pages: [page], pageParams: [firstParam] },
+          getNextPageParam(page, [page])
+        )
+    );
+  };
+
+  const result = useResource(resourceKey, fetchPages, options);
+  const data = result.data;
+
+  function getPageParam(
+    direction: Direction,
+    current: InfiniteData<TPage, TParam> | undefined
+  ) {
+    if (!current?.pages.length) return undefined;
+    const { getNextPageParam, getPreviousPageParam } = optionsRef.current;
+    const { pages } = current;
+    return direction === 'next'
+      ? getNextPageParam(pages[pages.length - 1], pages)
+      : getPreviousPageParam?.(pages[0], pages);
+  }
+
+  const fetchMore = useCallback(
+    (direction: Direction): Promise<void> => {
+      const currentKey = resourceKeyRef.current;
+      const current = readData();
+      const param = getPageParam(direction, current);
+      if (currentKey === null || !current || param === undefined) {
+        return Promise.resolve();
+      }
+
+      const id = ++lastFetchMoreRef.current;
+      setFetchingDirection(direction);
+      try {
+        fetchResource(
+          currentKey,
+          context =>
+            Promise.resolve(fetchPageRef.current(param, context)).then(page =>
+              direction === 'next'
+                ? {
+                    pages: [...current.pages, page],
+                    pageParams: [...current.pageParams, param],
+                  }
+                : {
+                    pages: [page, ...current.pages],
+                    pageParams: [param, ...current.pageParams],
+                  }
+            ),
+          {
+            ...optionsRef.current,
+            suspense: false,
+            dedupeMode: 'cancel-previous',
+            mount: false,
+            force: true,
+          }
+        );
+      } catch (thrown) {
+        if (!isPromise(thrown)) throw thrown;
+      }
+
+      const resource = store.getResourceByKey(currentKey);
+      const settled =
+        resource && 'suspender' in resource
+          ? resource.suspender
+          : Promise.resolve();
+      // A newer call cancels this one and owns the flag.
+      return settled.then(() => {
+        if (lastFetchMoreRef.current === id) setFetchingDirection(null);
+      });
+    },
+    [store, fetchResource, readData]
+  );
+
+  const fetchNextPage = useCallback(() => fetchMore('next'), [fetchMore]);
+  const fetchPreviousPage = useCallback(
+    () => fetchMore('previous'),
+    [fetchMore]
+  );
+
+  return {
+    ...result,
+    pages: data?.pages ?? [],
+    pageParams: data?.pageParams ?? [],
+    fetchNextPage,
+    fetchPreviousPage,
+    hasNextPage: getPageParam('next', data) !== undefined,
+    hasPreviousPage: getPageParam('previous', data) !== undefined,
+    isFetchingNextPage: fetchingDirection === 'next',
+    isFetchingPreviousPage: fetchingDirection === 'previous',
+  };
+}
@@ -0,0 +1,197 @@
+import { useCallback, useRef, useState, useSyncExternalStore } from 'react';
+import { MightBePromise, ResourceKey } from './types';
+import { toError } from './utils';
+import {
+  InvalidateFilter,
+  MutationState,
+  MutationStatus,
+} from './resource-store';
+import { useResourceStore } from './resource-provider';
+
+export type { MutationState, MutationStatus };
+
+export type UseMutationOptions<TData, TVariables, TContext = unknown> = {
+  /** Runs before `mutationFn`; its result is passed to the other callbacks as `context`. */
+  onMutate?: (variables: TVariables) => MightBePromise<TContext>;
+  onSuccess?: (
+    data: TData,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => MightBePromise<unknown>;
+  onError?: (
+    error: Error,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => MightBePromise<unknown>;
+  onSettled?: (
+    data: TData | undefined,
+    error: Error | undefined,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => MightBePromise<unknown>;
+  /** Cache entries to write on success, as `[key, value or updater function]` pairs. */
+  updates?: (data: TData, variables: TVariables) => [ResourceKey, unknown][];
+  /** Keys to invalidate on success. */
+  invalidates?:
+    | InvalidateFilter[]
+    | ((data: TData, variables: TVariables) => InvalidateFilter[]);
+};
+
+let lastMutationKey = 0;
+
+/**
+ * Hook for write operations that update or invalidate cached resources.
+ *
+ * @template TData - The type of data returned by the mutation function
+ * @template TVariables - The type of variables passed to `mutate`
+ *
+ * @param mutationFn - Function performing the write, receives the variables passed to `mutate`
+ * @param options - Optional configuration
+ * @param options.onMutate - Called before `mutationFn`, e.g. for an optimistic `mutate()`. Its result is passed on as `context`
+ * @param options.onSuccess - Called with the data, variables and context when the mutation succeeds
+ * @param options.onError - Called with the error, variables and context when the mutation fails
+ * @param options.onSettled - Called after either outcome
+ * @param options.updates - Cache entries to write on success, as `[key, value or updater]` pairs
+ * @param options.invalidates - Keys, prefixes or predicates to `invalidate` on success
+ *
+ * @returns Object containing:
+ * - `mutate` - Starts the mutation; errors are reported through the state only
+ * - `mutateAsync` - Starts the mutation and returns a promise of its data
+ * - `status` - Status of the latest call: `'idle'`, `'pending'`, `'success'` or `'error'`
+ * - `isPending` - `true` while any call is in flight
+ * - `data` - Data of the latest call
+ * - `error` - Error of the latest call
+ * - `variables` - Variables of the latest call
+ * - `mutations` - State of every call since the last `reset`, oldest first
+ * - `reset` - Clears the state of all calls
+ *
+ * Uses the store of the nearest `ResourceProvider`, or the default store
+ * when rendered outside of one.
+ *
+ * @example
+ * ```tsx
+ * function AddTodo() {
+ *   const { mutate, isPending, error } = useMutation(
+ *     (text: string) => api.addTodo(text),
+ *     { invalidates: [['todos']] }
+ *   );
+ *
+ *   return (
+ *     <button disabled={isPending} onClick={() => mutate('New task')}>
+ *       {error ? 'Retry' : 'Add'}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export default function useMutation<
+  TData,
+  TVariables = void,
+  TContext = unknown,
+>(
+  mutationFn: (variables: TVariables) => MightBePromise<TData>,
+  options?: UseMutationOptions<TData, TVariables, TContext>
+) {
+  const store = useResourceStore();
+  // The calls of each hook are tracked in the store under a key of their own.
+  const [key] = useState(() => `$mutation:${++lastMutationKey}`);
+  const subscribe = useCallback(
+    (listener: () => void) => store.subscribe(key, listener),
+    [store, key]
+  );
+  const getSnapshot = useCallback(
+    () => store.getMutations<TData, TVariables>(key),
+    [store, key]
+  );
+  const mutations = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const lastIdRef = useRef(0);
+  const mutationFnRef = useRef(mutationFn);
+  mutationFnRef.current = mutationFn;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const updateCache = useCallback(
+    (data: TData, variables: TVariables) => {
+      const { updates, invalidates } = optionsRef.current ?? {};
+      updates?.(data, variables).forEach(([key, updater]) => {
+        store.mutate(key, updater);
+      });
+
+      const filters =
+        typeof invalidates === 'function'
+          ? invalidates(data, variables)
+          : invalidates;
+      filters?.forEach(filter => store.invalidate(filter));
+    },
+    [store]
+  );
+
+  const mutateAsync = useCallback(
+    (variables: TVariables): Promise<TData> => {
+      const id = ++lastIdRef.current;
+      const callbacks = optionsRef.current;
+      let context: TContext | undefined;
+      store.setMutation(key, { id, status: 'pending', variables });
+
+      return Promise.resolve()
+        .then(() => callbacks?.onMutate?.(variables))
+        .then(result => {
+          context = result;
+          return mutationFnRef.current(variables);
+        })
+        .then(
+          data => {
+            // The state is recorded first, so a failing callback cannot leave
+            // the call pending. Callback failures reject the returned promise
+            // without turning the call into an error.
+            store.setMutation(key, { id, status: 'success', variables, data });
+            updateCache(data, variables);
+            return Promise.resolve(
+              callbacks?.onSuccess?.(data, variables, context)
+            )
+              .then(() =>
+                callbacks?.onSettled?.(data, undefined, variables, context)
+              )
+              .then(() => data);
+          },
+          e => {
+            const error = toError(e);
+            store.setMutation(key, { id, status: 'error', variables, error });
+            return Promise.resolve(
+              callbacks?.onError?.(error, variables, context)
+            )
+              .then(() =>
+                callbacks?.onSettled?.(undefined, error, variables, context)
+              )
+              .then(() => {
+                throw error;
+              });
+          }
+        );
+    },
+    [store, key, updateCache]
+  );
+
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => {});
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => store.resetMutations(key), [store, key]);
+
+  const latest = mutations[mutations.length - 1];
+
+  return {
+    mutate,
+    mutateAsync,
+    status: (latest?.status ?? 'idle') as MutationStatus,
+    isPending: mutations.some(({ status }) => status === 'pending'),
+    data: latest?.data,
+    error: latest?.error,
+    variables: latest?.variables,
+    mutations,
+    reset,
+  };
+}
@@ -1,27 +1,121 @@
-import { RefObject, useCallback, useRef, useSyncExternalStore } from 'react';
-import { MightBePromise, type Resource } from './types';
-import { isPromise } from './utils';
-import { defaultResourceStore } from './resource-store';
-import { successfullResource } from './resource-state';
-import { fetchResource, FetchResourceOptions } from './fetch-resource';
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { Fetcher, ResourceKey, ResourceStatus, type Resource } from './types';
+import { hashKey } from './resource-key';
+import { isDeepEqual, isPromise } from './utils';
+import {
+  AsyncUpdater,
+  MutateOptions,
+  ResourceStore,
+  SyncUpdater,
+  skipMutation,
+} from './resource-store';
+import {
+  failedResource,
+  hasResult,
+  successfullResource,
+} from './resource-state';
+import { FetchResourceOptions } from './fetch-resource';
+import { useResourceContext } from './resource-provider';
+
+export type UseResourceOptions<T, TSelected = T> = FetchResourceOptions & {
+  enabled?: boolean;
+  refreshInterval?: number | ((data: T | undefined) => number);
+  refreshWhenHidden?: boolean;
+  revalidateOnFocus?: boolean;
+  revalidateOnReconnect?: boolean;
+  /** Keep returning the data of the previous key while a new key loads. */
+  keepPreviousData?: boolean;
+  /** Data returned while the key has none yet. Never written to the cache. */
+  placeholderData?: T | ((previousData: T | undefined) => T);
+  /** Derives the returned data from the result, once per version. */
+  select?: (data: T) => TSelected;
+  /** Decides whether a newly selected value replaces the previous one. */
+  isEqual?: (previous: TSelected, next: TSelected) => boolean;
+};
+
+type Placeholder<T> = { data: T };
+
+// Data shown in place of a resource that has no result yet.
+function getPlaceholder<T, TSelected>(
+  key: string | null,
+  previous: { key: string | null; data: T } | null,
+  options: UseResourceOptions<T, TSelected> | undefined
+): Placeholder<T> | null {
+  if (options?.keepPreviousData && previous && previous.key !== key) {
+    return { data: previous.data };
+  }
+
+  const placeholderData = options?.placeholderData;
+  if (placeholderData === undefined) return null;
+  return {
+    data:
+      typeof placeholderData === 'function'
+        ? (placeholderData as (previousData: T | undefined) => T)(
+            previous?.data
+          )
+        : placeholderData,
+  };
+}
+
+/** `mutate` of the store, bound to the key of the hook. */
+export interface BoundMutate<T> {
+  (updater: AsyncUpdater<T>, options?: MutateOptions<T>): Promise<boolean>;
+  (updater: SyncUpdater<T>, options?: MutateOptions<T>): boolean;
+}
 
 /**
  * Hook for fetching and caching data with automatic deduplication and Suspense support.
  *
  * @template T - The type of data returned by the fetcher function
+ * @template TSelected - The type of `data` returned by `select`
  *
  * @param key - Unique identifier for the resource. Components with the same key share cached data.
- * @param fetcher - Function that returns data synchronously or asynchronously
+ *   Arrays and plain objects such as `['posts', { userId, page }]` are hashed deterministically.
+ *   Pass `null` to skip fetching until the key is known.
+ * @param fetcher - Function that returns data synchronously or asynchronously.
+ *   Receives `{ signal }`, an `AbortSignal` for cancelling the request.
  * @param options - Optional configuration
+ * @param options.enabled - Set to `false` to skip fetching; the resource stays `idle` until enabled. Default: `true`
  * @param options.suspense - Enable Suspense mode (throws promise while loading). Default: `true`
  * @param options.ttl - Time-to-live in seconds before cache expires. Default: `60`
+ * @param options.retry - Number of retries, or a predicate receiving the failure count and error. Default: `0`
+ * @param options.retryDelay - Delay in seconds between retries, `'exponential'`, or a function of the failure count. Default: `'exponential'`
+ * @param options.errorTtl - Time in seconds an error is kept before a mount re-attempts the fetch. Default: `Infinity`
+ * @param options.retryOnMount - Whether a mount re-attempts an expired error, or a predicate receiving the error. Default: `true`
+ * @param options.keepDataOnError - Keep returning the last successful data when a revalidation fails. Default: `true`
+ * @param options.gcTime - Time in seconds the data is kept once no component uses it. Default: the store's `gcTime` (`300`)
+ * @param options.refreshInterval - Poll every N seconds, or a function of the latest data returning the interval. `0` disables polling
+ * @param options.refreshWhenHidden - Keep polling while the document is hidden. Default: `false`
+ * @param options.revalidateOnFocus - Revalidate when the window regains focus, if the data is stale. Default: `false`
+ * @param options.revalidateOnReconnect - Revalidate when the network reconnects, if the data is stale. Default: `false`
+ * @param options.dedupeMode - What `refetch` does while a request is in flight: `'cancel-previous'`, `'dedupe'` or `'queue'`. Default: `'cancel-previous'`
+ * @param options.structuralSharing - Reuse the unchanged parts of the previous result after a revalidation; an identical result keeps its version. Default: `false`
+ * @param options.keepPreviousData - Keep returning the data of the previous key, without suspending, while a new key loads. Default: `false`
+ * @param options.placeholderData - Data, or a function of the previous key's data, returned without suspending until the key has data. Never cached
+ * @param options.select - Derives the returned `data` from the result. Runs once per version of the resource, with the latest function
+ * @param options.isEqual - Compares the previous and the newly selected value; the component only re-renders when they differ. Default: structural equality with `select`, `Object.is` without
  *
  * @returns Object containing:
- * - `data` - The fetched data (undefined during initial load or on error)
+ * - `status` - Resource status, `'idle'` while the key is `null` or `enabled` is `false`
+ * - `data` - The fetched data (undefined during initial load, or on error unless `keepDataOnError` kept the last result)
  * - `error` - Error object if fetch failed (undefined otherwise)
  * - `isLoading` - `true` during initial load when no data exists yet
  * - `isValidating` - `true` during any fetch operation (initial or refetch)
- * - `refetch` - Function to manually trigger a refetch
+ * - `failureCount` - Number of consecutive failed attempts of the current fetch
+ * - `failureReason` - Error of the last failed attempt
+ * - `isPlaceholderData` - `true` while `data` comes from `keepPreviousData` or `placeholderData`
+ * - `refetch` - Function to manually trigger a refetch; does nothing while disabled
+ * - `mutate` - Function to update the cached data for this key with a value, an updater function or a promise
+ *
+ * Reads from the store of the nearest `ResourceProvider`, or the default store
+ * when rendered outside of one.
  *
  * @example
  * ```tsx
@@ -44,70 +138,292 @@ import { fetchResource, FetchResourceOptions } from './fetch-resource';
  * }
  * ```
  */
-export default function useResource<T>(
-  key: string,
-  fetcher: (...args: unknown[]) => MightBePromise<T>,
-  options?: FetchResourceOptions
+export default function useResource<T, TSelected = T>(
+  resourceKey: ResourceKey | null,
+  fetcher: Fetcher<T>,
+  options?: UseResourceOptions<T, TSelected>
 ) {
-  fetchResource<T, FetchResourceOptions['suspense']>(
-    key,
-    fetcher,
-    options
-      ? {
-          ttl: options.ttl,
-          suspense: options.suspense,
-        }
-      : undefined
-  );
+  const { store, fetchResource } = useResourceContext();
+  const key = resourceKey === null ? null : hashKey(resourceKey);
+  const resourceKeyRef = useRef(resourceKey);
+  resourceKeyRef.current = resourceKey;
+  const mountedKeyRef = useRef<string | null>(null);
+  const enabled =
+    resourceKey !== null && key !== null && (options?.enabled ?? true);
+  // A disabled key reads as idle, whatever is cached for it.
+  const activeKey = enabled ? key : null;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  const previousDataRef = useRef<{ key: string | null; data: T } | null>(null);
+  const cachedResource = readResource<T>(store, activeKey);
+  const placeholder =
+    hasResult(cachedResource) || cachedResource?.status === 'rejected'
+      ? null
+      : getPlaceholder(key, previousDataRef.current, options);
 
-  const initialResource = defaultResourceStore.getResourceByKey<T>(key);
+  const fetchOptions = {
+    ttl: options?.ttl,
+    // With something to show in the meantime, there is no need to suspend.
+    suspense: placeholder ? false : options?.suspense,
+    retry: options?.retry,
+    retryDelay: options?.retryDelay,
+    errorTtl: options?.errorTtl,
+    retryOnMount: options?.retryOnMount,
+    keepDataOnError: options?.keepDataOnError,
+    dedupeMode: options?.dedupeMode,
+    gcTime: options?.gcTime,
+    structuralSharing: options?.structuralSharing,
+    dependsOn: options?.dependsOn,
+    mount: mountedKeyRef.current !== key,
+  };
+  const fetchOptionsRef = useRef(fetchOptions);
+  fetchOptionsRef.current = fetchOptions;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  if (enabled) {
+    fetchResource<T, FetchResourceOptions['suspense']>(
+      resourceKey,
+      fetcher,
+      fetchOptions
+    );
+  }
+
+  useEffect(() => {
+    if (enabled) mountedKeyRef.current = key;
+  }, [key, enabled]);
+
+  const initialResource = readResource<T>(store, activeKey);
   const lastVersionRef = useRef<number | null>(
     successfullResource(initialResource) ? initialResource.$version : null
   );
 
   const subscribe = useCallback(
-    (listener: () => void) => defaultResourceStore.subscribe(key, listener),
-    [key]
+    (listener: () => void) =>
+      key === null ? () => {} : store.subscribe(key, listener),
+    [store, key]
   );
 
+  const [readView] = useState(() => createViewReader<T, TSelected>());
+
   const getSnapshot = useCallback(
-    () => readResourceSnapshot<T>(key, lastVersionRef),
-    [key]
+    () =>
+      readView(
+        readResourceSnapshot<T>(store, activeKey, lastVersionRef),
+        optionsRef.current
+      ),
+    [store, activeKey, readView]
+  );
+
+  // Reads the store without tracking versions, so the first client render
+  // sees exactly what `hydrate` seeded from the server.
+  const getServerSnapshot = useCallback(
+    () => readView(readResource<T>(store, activeKey), optionsRef.current),
+    [store, activeKey, readView]
   );
 
-  const resource = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const { resource, data } = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
 
-  const refetch = useCallback(() => {
-    try {
-      fetchResource(key, fetcher, { force: true });
-    } catch (thrown) {
-      if (isPromise(thrown)) {
-        return;
+  const revalidate = useCallback(
+    (force: boolean) => {
+      const resourceKey = resourceKeyRef.current;
+      if (resourceKey === null || !enabledRef.current) return;
+      try {
+        fetchResource(resourceKey, fetcher, {
+          ...fetchOptionsRef.current,
+          mount: false,
+          force,
+        });
+      } catch (thrown) {
+        if (isPromise(thrown)) {
+          return;
+        }
+        throw thrown;
       }
-      throw thrown;
-    }
-  }, [key, fetcher]);
+    },
+    [fetchResource, key, fetcher]
+  );
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+
+  const revalidateRef = useRef(revalidate);
+  revalidateRef.current = revalidate;
 
-  const status = resource?.status;
+  useEffect(() => {
+    if (!enabled) return;
+    return store.revalidator(key, () => revalidateRef.current(true));
+  }, [store, key, enabled]);
+
+  const isPolling = !!options?.refreshInterval;
+  const refreshWhenHidden = options?.refreshWhenHidden;
+
+  useEffect(() => {
+    if (!enabled || !isPolling) return;
+
+    return store.poll(key, {
+      interval: data => {
+        const refreshInterval = optionsRef.current?.refreshInterval ?? 0;
+        return typeof refreshInterval === 'function'
+          ? refreshInterval(data as T | undefined)
+          : refreshInterval;
+      },
+      refreshWhenHidden,
+      revalidate: () => revalidateRef.current(true),
+    });
+  }, [store, key, enabled, isPolling, refreshWhenHidden]);
+
+  const revalidateOnFocus = options?.revalidateOnFocus;
+  const revalidateOnReconnect = options?.revalidateOnReconnect;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const revalidateIfStale = () => revalidateRef.current(false);
+    const unlisten = [
+      revalidateOnFocus && store.listen('focus', key, revalidateIfStale),
+      revalidateOnReconnect &&
+        store.listen('reconnect', key, revalidateIfStale),
+    ];
+    return () => unlisten.forEach(stop => stop && stop());
+  }, [store, key, enabled, revalidateOnFocus, revalidateOnReconnect]);
+
+  const mutate = useCallback(
+    (
+      updater: SyncUpdater<T> | AsyncUpdater<T>,
+      mutateOptions?: MutateOptions<T>
+    ) => {
+      const currentKey = resourceKeyRef.current;
+      if (key !== null && currentKey !== null) {
+        return store.mutate<T>(
+          currentKey,
+          updater as SyncUpdater<T>,
+          mutateOptions
+        );
+      }
+      return skipMutation(updater);
+    },
+    [store, key]
+  ) as BoundMutate<T>;
+
+  const status: ResourceStatus = resource?.status ?? 'idle';
   const isValidating = status === 'pending' || status === 'revalidating';
   const isLoading = status === 'pending';
-  const hasData = status === 'fulfilled' || status === 'revalidating';
-  const hasError = status === 'rejected';
+  const isPlaceholderData =
+    !!placeholder && !hasResult(resource) && status !== 'rejected';
+
+  if (hasResult(resource)) {
+    previousDataRef.current = { key, data: resource.result };
+  }
 
   return {
-    data: hasData && resource ? resource.result : undefined,
-    error: hasError && resource ? resource.error : undefined,
+    status,
+    data: hasResult(resource)
+      ? data
+      : isPlaceholderData
+        ? options?.select
+          ? options.select(placeholder.data)
+          : (placeholder.data as unknown as TSelected)
+        : undefined,
+    error: errorOf(resource),
     isLoading,
     isValidating,
+    failureCount: resource?.failureCount ?? 0,
+    failureReason: resource?.failureReason,
+    isPlaceholderData,
     refetch,
+    mutate,
+  };
+}
+
+type ResourceView<T, TSelected> = {
+  resource: Resource<T> | undefined;
+  data: TSelected | undefined;
+};
+
+function errorOf<T>(resource: Resource<T> | undefined) {
+  return failedResource(resource) ? resource.error : undefined;
+}
+
+function isSameView<T, TSelected>(
+  a: ResourceView<T, TSelected>,
+  b: ResourceView<T, TSelected>
+) {
+  return (
+    a.data === b.data &&
+    a.resource?.status === b.resource?.status &&
+    errorOf(a.resource) === errorOf(b.resource) &&
+    a.resource?.failureCount === b.resource?.failureCount &&
+    a.resource?.failureReason === b.resource?.failureReason
+  );
+}
+
+/**
+ * Creates the snapshot reader of a hook. The selected data is derived once per
+ * version with the latest `select`, so an inline selector does not run on
+ * every render. The previous view is returned while nothing the hook exposes
+ * has changed, so notifications that do not affect it skip the re-render.
+ */
+function createViewReader<T, TSelected>() {
+  let memo: {
+    version: number;
+    result: T;
+    selected: boolean;
+    data: TSelected;
+  } | null = null;
+  let view: ResourceView<T, TSelected> = {
+    resource: undefined,
+    data: undefined,
   };
+
+  return (
+    resource: Resource<T> | undefined,
+    options: UseResourceOptions<T, TSelected> | undefined
+  ): ResourceView<T, TSelected> => {
+    const select = options?.select;
+    if (
+      hasResult(resource) &&
+      (memo?.version !== resource.$version ||
+        memo.result !== resource.result ||
+        memo.selected !== !!select)
+    ) {
+      const selected = select
+        ? select(resource.result)
+        : (resource.result as unknown as TSelected);
+      const isEqual = options?.isEqual ?? (select ? isDeepEqual : Object.is);
+      memo = {
+        version: resource.$version,
+        result: resource.result,
+        selected: !!select,
+        data: memo && isEqual(memo.data, selected) ? memo.data : selected,
+      };
+    }
+
+    const next = {
+      resource,
+      data: hasResult(resource) ? memo?.data : undefined,
+    };
+    if (!isSameView(view, next)) view = next;
+    return view;
+  };
+}
+
+// Reads by hashed key; `getResourceByKey` would hash it again.
+function readResource<T>(store: ResourceStore, key: string | null) {
+  return key === null
+    ? undefined
+    : (store.cache.get(key) as Resource<T> | undefined);
 }
 
 function readResourceSnapshot<T>(
-  key: string,
+  store: ResourceStore,
+  key: string | null,
   lastVersionRef: RefObject<number | null>
 ): Resource<T> | undefined {
-  const resource = defaultResourceStore.getResourceByKey<T>(key);
+  const resource = readResource<T>(store, key);
 
   if (!resource) {
     lastVersionRef.current = null;
@@ -0,0 +1,237 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
+import { Fetcher, Resource, ResourceKey, ResourceStatus } from './types';
+import { hashKey } from './resource-key';
+import { failedResource, hasResult } from './resource-state';
+import {
+  AsyncUpdater,
+  MutateOptions,
+  SyncUpdater,
+  skipMutation,
+} from './resource-store';
+import { FetchResourceOptions } from './fetch-resource';
+import { useResourceContext } from './resource-provider';
+import { BoundMutate } from './use-resource';
+
+export type ResourceQuery<T> = {
+  key: ResourceKey | null;
+  fetcher: Fetcher<T>;
+  options?: Omit<FetchResourceOptions, 'suspense'> & { enabled?: boolean };
+};
+
+/**
+ * How a failed key is reported: `'all-settled'` returns its error in its
+ * state, `'fail-fast'` throws it to the nearest error boundary.
+ */
+export type ErrorMode = 'all-settled' | 'fail-fast';
+
+export type UseResourcesOptions = {
+  /** Suspend until every key has loaded. Default: `true` */
+  suspense?: boolean;
+  /** Default: `'all-settled'` */
+  errorMode?: ErrorMode;
+};
+
+export type ResourceState<T> = {
+  status: ResourceStatus;
+  data: T | undefined;
+  error: Error | undefined;
+  isLoading: boolean;
+  isValidating: boolean;
+  failureCount: number;
+  failureReason: Error | undefined;
+  refetch: () => void;
+  mutate: BoundMutate<T>;
+};
+
+export type ResourceStates<Q extends readonly ResourceQuery<unknown>[]> = {
+  [K in keyof Q]: Q[K] extends ResourceQuery<infer T>
+    ? ResourceState<T>
+    : never;
+};
+
+type Snapshot = (Resource<unknown> | undefined)[];
+
+/**
+ * Hook for fetching several resources in parallel. Every fetch starts in the
+ * same render, and a single combined suspender is thrown while any of them is
+ * pending, so the keys load together instead of one after another.
+ *
+ * @param queries - `{ key, fetcher, options }` per resource. `options` takes
+ *   the fetch options of `useResource`, plus `enabled`
+ * @param options - Optional configuration
+ * @param options.suspense - Suspend until every enabled key has loaded. Default: `true`
+ * @param options.errorMode - `'all-settled'` returns errors in the state of their key;
+ *   `'fail-fast'` stops waiting and throws the first error. Default: `'all-settled'`
+ *
+ * @returns A tuple with the state of each key, in the order of `queries`
+ *
+ * @example
+ * ```tsx
+ * function Dashboard() {
+ *   const [user, posts] = useResources([
+ *     { key: 'user', fetcher: fetchUser },
+ *     { key: ['posts', { page: 1 }], fetcher: () => fetchPosts(1) },
+ *   ]);
+ *   return <Feed user={user.data} posts={posts.data} />;
+ * }
+ * ```
+ */
+export default function useResources<
+  const Q extends readonly ResourceQuery<unknown>[],
+>(queries: Q, options: UseResourcesOptions = {}): ResourceStates<Q> {
+  const { store, fetchResource } = useResourceContext();
+  const suspense = options.suspense ?? true;
+  const errorMode = options.errorMode ?? 'all-settled';
+  const hashes = queries.map(({ key }) => (key === null ? null : hashKey(key)));
+  // Disabled keys are read as idle, like a `null` key.
+  const keys = hashes.map((hash, index) =>
+    queries[index].options?.enabled === false ? null : hash
+  );
+  const keysHash = JSON.stringify(keys);
+  const hashesHash = JSON.stringify(hashes);
+  const queriesRef = useRef(queries);
+  queriesRef.current = queries;
+  const mountedKeysRef = useRef(new Set<string>());
+
+  queries.forEach(({ key: resourceKey, fetcher, options }, index) => {
+    const key = keys[index];
+    if (resourceKey === null || key === null) return;
+    fetchResource(resourceKey, fetcher, {
+      ...options,
+      suspense: false,
+      mount: !mountedKeysRef.current.has(key),
+    });
+  });
+
+  useEffect(() => {
+    mountedKeysRef.current = new Set(
+      keys.filter((key): key is string => key !== null)
+    );
+  }, [keysHash]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const unsubscribes = keys.map(key =>
+        key === null ? () => {} : store.subscribe(key, listener)
+      );
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+    [store, keysHash]
+  );
+
+  const snapshotRef = useRef<Snapshot>([]);
+  const getSnapshot = useCallback(() => {
+    const next = keys.map(key =>
+      key === null ? undefined : store.cache.get(key)
+    );
+    const previous = snapshotRef.current;
+    if (
+      next.length === previous.length &&
+      next.every((resource, index) => resource === previous[index])
+    ) {
+      return previous;
+    }
+    snapshotRef.current = next;
+    return next;
+  }, [store, keysHash]);
+
+  const resources = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const revalidate = useCallback(
+    (index: number) => {
+      const query = queriesRef.current[index];
+      if (!query || query.key === null || query.options?.enabled === false) {
+        return;
+      }
+      fetchResource(query.key, query.fetcher, {
+        ...query.options,
+        suspense: false,
+        mount: false,
+        force: true,
+      });
+    },
+    [fetchResource]
+  );
+
+  useEffect(() => {
+    const unregister = keys.map((key, index) =>
+      key === null ? () => {} : store.revalidator(key, () => revalidate(index))
+    );
+    return () => unregister.forEach(stop => stop());
+  }, [store, keysHash, revalidate]);
+
+  const actions = useMemo(
+    () =>
+      hashes.map((key, index) => ({
+        refetch: () => revalidate(index),
+        mutate: ((
+          updater: SyncUpdater<unknown> | AsyncUpdater<unknown>,
+          mutateOptions?: MutateOptions<unknown>
+        ) => {
+          const resourceKey = queriesRef.current[index]?.key;
+          if (key !== null && resourceKey != null) {
+            return store.mutate(
+              resourceKey,
+              updater as SyncUpdater<unknown>,
+              mutateOptions
+            );
+          }
+          return skipMutation(updater);
+        }) as BoundMutate<unknown>,
+      })),
+    [store, hashesHash, revalidate]
+  );
+
+  if (errorMode === 'fail-fast') {
+    const failed = resources.find(resource => failedResource(resource));
+    if (failedResource(failed)) throw failed.error;
+  }
+
+  const pending = resources.filter(
+    resource => resource?.status === 'pending'
+  ) as Extract<Resource<unknown>, { status: 'pending' }>[];
+  if (suspense && pending.length) {
+    const hasFailed = () =>
+      keys.some(key => key !== null && failedResource(store.cache.get(key)));
+    throw combineSuspenders(
+      pending.map(resource => resource.suspender),
+      errorMode === 'fail-fast' ? hasFailed : () => false
+    );
+  }
+
+  return resources.map((resource, index) => {
+    const status: ResourceStatus = resource?.status ?? 'idle';
+    return {
+      status,
+      data: hasResult(resource) ? resource.result : undefined,
+      error: failedResource(resource) ? resource.error : undefined,
+      isLoading: status === 'pending',
+      isValidating: status === 'pending' || status === 'revalidating',
+      failureCount: resource?.failureCount ?? 0,
+      failureReason: resource?.failureReason,
+      ...actions[index],
+    };
+  }) as ResourceStates<Q>;
+}
+
+// Resolves once every suspender has, or as soon as `shouldStop` holds after
+// one of them resolved.
+function combineSuspenders(
+  suspenders: Promise<unknown>[],
+  shouldStop: () => boolean
+): Promise<void> {
+  return new Promise(resolve => {
+    suspenders.forEach(suspender =>
+      suspender.then(() => {
+        if (shouldStop()) resolve();
+      })
+    );
+    Promise.all(suspenders).then(() => resolve());
+  });
+}
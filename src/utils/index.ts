@@ -1,3 +1,94 @@
 export function isPromise<T>(promise: unknown): promise is Promise<T> {
-  return Object.getPrototypeOf(promise) === Promise.prototype;
+  return (
+    promise != null && Object.getPrototypeOf(promise) === Promise.prototype
+  );
+}
+
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/** Compares arrays and plain objects by value, anything else with `Object.is`. */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a)) {
+    return (
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isDeepEqual(item, b[index]))
+    );
+  }
+  if (isPlainObject(a)) {
+    if (!isPlainObject(b)) return false;
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        key =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          isDeepEqual(a[key], b[key])
+      )
+    );
+  }
+  return false;
+}
+
+/**
+ * Returns `previous` when `next` deeply equals it. Otherwise returns a copy of
+ * `next` in which every array or plain object that deeply equals its
+ * counterpart in `previous` is replaced by that counterpart.
+ */
+export function replaceEqualDeep<T>(previous: unknown, next: T): T {
+  if (Object.is(previous, next)) return previous as T;
+  const isArray = Array.isArray(previous) && Array.isArray(next);
+  if (!isArray && !(isPlainObject(previous) && isPlainObject(next))) {
+    return next;
+  }
+
+  const source = previous as Record<string, unknown>;
+  const target = next as Record<string, unknown>;
+  const keys = Object.keys(target);
+  const copy: Record<string, unknown> = isArray ? ([] as never) : {};
+  let unchanged = keys.length === Object.keys(source).length;
+  keys.forEach(key => {
+    copy[key] = replaceEqualDeep(source[key], target[key]);
+    if (
+      copy[key] !== source[key] ||
+      !Object.prototype.hasOwnProperty.call(source, key)
+    ) {
+      unchanged = false;
+    }
+  });
+  return (unchanged ? previous : copy) as T;
+}
+
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+export function isDocumentHidden(): boolean {
+  return (
+    typeof document !== 'undefined' && document.visibilityState === 'hidden'
+  );
+}
+
+export function isServer(): boolean {
+  return typeof window === 'undefined';
 }
@@ -2,11 +2,19 @@ import {
   fetchResource,
   type FetchResourceOptions,
 } from '../src/fetch-resource';
-import { cache, mutate } from '../src/resource-store';
+import {
+  cache,
+  cancel,
+  defaultResourceStore,
+  invalidate,
+  mutate,
+} from '../src/resource-store';
 import { successfullResource, failedResource } from '../src/resource-state';
 
 import {
   PendingResource,
+  type FetchContext,
+  type RevalidatingResource,
   type ErroredResult,
   type FullfiledResult,
   type Resource,
@@ -577,3 +585,607 @@ describe('fetchResource - error handling', () => {
     expect(error.message).toBe('null');
   });
 });
+
+describe('fetchResource - cancellation', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  function abortableFetcher(data: string, ms: number = 20) {
+    return vi.fn(
+      ({ signal }: FetchContext) =>
+        new Promise<string>((resolve, reject) => {
+          const timeout = setTimeout(() => resolve(data), ms);
+          signal.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            reject(signal.reason);
+          });
+        })
+    );
+  }
+
+  it('should pass an AbortSignal to the fetcher', () => {
+    const fetcher = vi.fn((_context: FetchContext) => 'data');
+    fetchResource('signal-test', fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should abort the previous request on a forced refetch', async () => {
+    const fetcher = abortableFetcher('first');
+    await suspenseWrappedFetchResource(fetcher);
+
+    fetchResource('test', fetcher, { force: true });
+    const firstSignal = fetcher.mock.calls[1][0].signal;
+    fetchResource('test', fetcher, { force: true });
+
+    expect(firstSignal.aborted).toBe(true);
+    const resource = getResourceByKey('test') as RevalidatingResource<string>;
+    await resource.suspender;
+
+    const settled = getResourceByKey('test') as FullfiledResult<string>;
+    expect(settled.status).toBe('fulfilled');
+    expect(settled.result).toBe('first');
+  });
+
+  it('should restore the previous resource when cancelled', async () => {
+    const fetcher = abortableFetcher('data');
+    await suspenseWrappedFetchResource(fetcher);
+    const before = getResourceByKey('test') as FullfiledResult<string>;
+
+    fetchResource('test', fetcher, { force: true });
+    const revalidating = getResourceByKey(
+      'test'
+    ) as RevalidatingResource<string>;
+    expect(revalidating.status).toBe('revalidating');
+
+    expect(cancel('test')).toBe(true);
+    await revalidating.suspender;
+
+    const resource = getResourceByKey('test') as FullfiledResult<string>;
+    expect(resource.status).toBe('fulfilled');
+    expect(resource.$version).toBe(before.$version);
+    expect(resource.timestamp).toBe(before.timestamp);
+  });
+
+  it('should not cache a rejected resource for an aborted initial request', async () => {
+    const fetcher = abortableFetcher('data');
+    let suspender: Promise<unknown> | undefined;
+    try {
+      fetchResource('cancel-pending', fetcher);
+    } catch (thrown) {
+      suspender = thrown as Promise<unknown>;
+    }
+
+    cancel('cancel-pending');
+    await suspender;
+
+    expect(getResourceByKey('cancel-pending')).toBeUndefined();
+  });
+
+  it('should return false when there is nothing to cancel', () => {
+    fetchResource('sync-cancel', () => 'data');
+    expect(cancel('sync-cancel')).toBe(false);
+  });
+});
+
+describe('fetchResource - retry', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function flakyFetcher(failures: number) {
+    let calls = 0;
+    return vi.fn(() => {
+      calls++;
+      if (calls <= failures) {
+        return Promise.reject(new Error(`Failure ${calls}`));
+      }
+      return Promise.resolve('recovered');
+    });
+  }
+
+  it('should stay pending while retrying and resolve once an attempt succeeds', async () => {
+    const fetcher = flakyFetcher(2);
+    try {
+      fetchResource('retry-test', fetcher, { retry: 3, retryDelay: 1 });
+    } catch {}
+
+    await vi.advanceTimersByTimeAsync(0);
+    let resource = getResourceByKey('retry-test') as PendingResource<string>;
+    expect(resource.status).toBe('pending');
+    expect(resource.failureCount).toBe(1);
+    expect(resource.failureReason?.message).toBe('Failure 1');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    resource = getResourceByKey('retry-test') as PendingResource<string>;
+    expect(resource.status).toBe('pending');
+    expect(resource.failureCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const settled = getResourceByKey('retry-test') as FullfiledResult<string>;
+    expect(settled.status).toBe('fulfilled');
+    expect(settled.result).toBe('recovered');
+    expect(settled.failureCount).toBeUndefined();
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject with the last error once retries are exhausted', async () => {
+    const fetcher = flakyFetcher(5);
+    try {
+      fetchResource('retry-exhausted', fetcher, { retry: 2, retryDelay: 0 });
+    } catch {}
+
+    await vi.advanceTimersByTimeAsync(10);
+    const resource = getResourceByKey(
+      'retry-exhausted'
+    ) as ErroredResult<string>;
+    expect(resource.status).toBe('rejected');
+    expect(resource.error.message).toBe('Failure 3');
+    expect(resource.failureCount).toBe(3);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('should use exponential backoff by default', async () => {
+    const fetcher = flakyFetcher(5);
+    try {
+      fetchResource('retry-backoff', fetcher, { retry: 3 });
+    } catch {}
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('should consult a retry predicate', async () => {
+    const fetcher = flakyFetcher(5);
+    const retry = vi.fn((failureCount: number) => failureCount < 2);
+    try {
+      fetchResource('retry-predicate', fetcher, { retry, retryDelay: 0 });
+    } catch {}
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(retry).toHaveBeenCalledTimes(2);
+    expect(retry.mock.calls[0][1].message).toBe('Failure 1');
+    expect(getResourceByKey('retry-predicate')?.status).toBe('rejected');
+  });
+
+  it('should retry synchronous errors asynchronously', async () => {
+    let calls = 0;
+    const fetcher = () => {
+      if (++calls === 1) throw new Error('sync failure');
+      return 'ok';
+    };
+
+    expect(() =>
+      fetchResource('retry-sync', fetcher, { retry: 1, retryDelay: 0 })
+    ).toThrow();
+    expect(getResourceByKey('retry-sync')?.failureCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(0);
+    const resource = getResourceByKey('retry-sync') as FullfiledResult<string>;
+    expect(resource.status).toBe('fulfilled');
+    expect(resource.result).toBe('ok');
+  });
+
+  it('should stop retrying when cancelled', async () => {
+    const fetcher = flakyFetcher(5);
+    try {
+      fetchResource('retry-cancel', fetcher, { retry: 5, retryDelay: 1 });
+    } catch {}
+
+    await vi.advanceTimersByTimeAsync(0);
+    cancel('retry-cancel');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(getResourceByKey('retry-cancel')).toBeUndefined();
+  });
+});
+
+describe('fetchResource - error ttl', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function failingOnce() {
+    let calls = 0;
+    return vi.fn(() =>
+      ++calls === 1
+        ? Promise.reject(new Error('transient'))
+        : Promise.resolve('recovered')
+    );
+  }
+
+  it('should keep the error until the error ttl expires', async () => {
+    const fetcher = failingOnce();
+    let result = await suspenseWrappedFetchResource(fetcher, { errorTtl: 1 });
+    expect(result).toBeInstanceOf(Error);
+
+    expect(fetchResource('test', fetcher, { errorTtl: 1 })).toBe(result);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1100);
+    result = await suspenseWrappedFetchResource(fetcher, { errorTtl: 1 });
+    expect(result).toBe('recovered');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-attempt an expired error as pending when there is no data', async () => {
+    const fetcher = failingOnce();
+    await suspenseWrappedFetchResource(fetcher, { errorTtl: 0.1 });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(() =>
+      fetchResource('test', fetcher, { errorTtl: 0.1, suspense: true })
+    ).toThrow();
+    const resource = getResourceByKey('test') as PendingResource<string>;
+    expect(resource.status).toBe('pending');
+    // @ts-expect-error - error is not defined on pending resource
+    expect(resource.error).toBeUndefined();
+  });
+
+  it('should not re-attempt an expired error outside of a mount', async () => {
+    const fetcher = failingOnce();
+    await suspenseWrappedFetchResource(fetcher, { errorTtl: 0.1 });
+    await vi.advanceTimersByTimeAsync(200);
+
+    const result = fetchResource('test', fetcher, {
+      errorTtl: 0.1,
+      mount: false,
+    });
+    expect(result).toBeInstanceOf(Error);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should respect a retryOnMount predicate', async () => {
+    const fetcher = failingOnce();
+    const retryOnMount = vi.fn((error: Error) => error.message !== 'transient');
+    await suspenseWrappedFetchResource(fetcher, { errorTtl: 0.1 });
+    await vi.advanceTimersByTimeAsync(200);
+
+    const result = fetchResource('test', fetcher, {
+      errorTtl: 0.1,
+      retryOnMount,
+    });
+    expect(result).toBeInstanceOf(Error);
+    expect(retryOnMount).toHaveBeenCalledWith(result);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fetchResource - keep data on error', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  function failingRevalidation() {
+    let calls = 0;
+    return () =>
+      ++calls === 1
+        ? Promise.resolve('good')
+        : Promise.reject(new Error('revalidation failed'));
+  }
+
+  it('should keep the last successful result when a revalidation fails', async () => {
+    const fetcher = failingRevalidation();
+    await suspenseWrappedFetchResource(fetcher);
+
+    fetchResource('test', fetcher, { force: true });
+    await (getResourceByKey('test') as RevalidatingResource<string>).suspender;
+
+    const resource = getResourceByKey('test') as ErroredResult<string>;
+    expect(resource.status).toBe('rejected');
+    expect(resource.error.message).toBe('revalidation failed');
+    expect(resource.result).toBe('good');
+  });
+
+  it('should revalidate a rejected resource with data as revalidating', async () => {
+    const fetcher = failingRevalidation();
+    await suspenseWrappedFetchResource(fetcher);
+    fetchResource('test', fetcher, { force: true });
+    await (getResourceByKey('test') as RevalidatingResource<string>).suspender;
+
+    fetchResource('test', fetcher, { force: true });
+    const resource = getResourceByKey('test') as RevalidatingResource<string>;
+    expect(resource.status).toBe('revalidating');
+    expect(resource.result).toBe('good');
+    await resource.suspender;
+  });
+
+  it('should drop the result when keepDataOnError is disabled', async () => {
+    const fetcher = failingRevalidation();
+    await suspenseWrappedFetchResource(fetcher);
+
+    fetchResource('test', fetcher, { force: true, keepDataOnError: false });
+    await (getResourceByKey('test') as RevalidatingResource<string>).suspender;
+
+    const resource = getResourceByKey('test') as ErroredResult<string>;
+    expect(resource.status).toBe('rejected');
+    expect('result' in resource).toBe(false);
+  });
+});
+
+describe('fetchResource - concurrent revalidations', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function delayedFetcher(responses: [string, number][]) {
+    let call = 0;
+    return vi.fn(() => {
+      const [data, ms] = responses[call++];
+      return syncFetcher(data, ms);
+    });
+  }
+
+  it('should only commit the newest request when an older one settles last', async () => {
+    // Aborting would settle the older request early; let it run to the end so
+    // only the request id decides which result is committed.
+    vi.spyOn(AbortController.prototype, 'abort').mockImplementation(() => {});
+    const fetcher = delayedFetcher([
+      ['older', 100],
+      ['newer', 10],
+    ]);
+    fetchResource('test', () => 'initial');
+
+    fetchResource('test', fetcher, { force: true });
+    fetchResource('test', fetcher, { force: true });
+    await vi.advanceTimersByTimeAsync(200);
+
+    const resource = getResourceByKey('test') as FullfiledResult<string>;
+    expect(resource.status).toBe('fulfilled');
+    expect(resource.result).toBe('newer');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reuse the in-flight request in dedupe mode', async () => {
+    const fetcher = delayedFetcher([
+      ['first', 50],
+      ['second', 50],
+    ]);
+    fetchResource('test', () => 'initial');
+
+    fetchResource('test', fetcher, { force: true });
+    const inflight = getResourceByKey('test') as RevalidatingResource<string>;
+    fetchResource('test', fetcher, { force: true, dedupeMode: 'dedupe' });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(getResourceByKey('test')).toBe(inflight);
+
+    await vi.advanceTimersByTimeAsync(60);
+    const resource = getResourceByKey('test') as FullfiledResult<string>;
+    expect(resource.result).toBe('first');
+  });
+
+  it('should run a forced fetch after the in-flight one in queue mode', async () => {
+    const fetcher = delayedFetcher([
+      ['first', 50],
+      ['second', 50],
+    ]);
+    fetchResource('test', () => 'initial');
+
+    fetchResource('test', fetcher, { force: true });
+    fetchResource('test', fetcher, { force: true, dedupeMode: 'queue' });
+    fetchResource('test', fetcher, { force: true, dedupeMode: 'queue' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(55);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    const revalidating = getResourceByKey(
+      'test'
+    ) as RevalidatingResource<string>;
+    expect(revalidating.status).toBe('revalidating');
+    expect(revalidating.result).toBe('first');
+
+    await vi.advanceTimersByTimeAsync(55);
+    const resource = getResourceByKey('test') as FullfiledResult<string>;
+    expect(resource.result).toBe('second');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('fetchResource - structural sharing', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  type Todos = { items: { id: number; title: string }[]; total: number };
+
+  function fetchTodos(titles: string[]) {
+    return () =>
+      Promise.resolve<Todos>({
+        items: titles.map((title, index) => ({ id: index, title })),
+        total: titles.length,
+      });
+  }
+
+  it('should keep the previous result and version when nothing changed', async () => {
+    await suspenseWrappedFetchResource(fetchTodos(['a', 'b']));
+    const previous = getResourceByKey('test') as FullfiledResult<Todos>;
+    const subscriber = vi.fn();
+    const watcher = vi.fn();
+    const unsubscribe = defaultResourceStore.subscribe('test', subscriber);
+    const unwatch = defaultResourceStore.watch(watcher);
+
+    fetchResource('test', fetchTodos(['a', 'b']), {
+      force: true,
+      structuralSharing: true,
+    });
+    watcher.mockClear();
+    subscriber.mockClear();
+    await (getResourceByKey('test') as RevalidatingResource<Todos>).suspender;
+
+    const resource = getResourceByKey('test') as FullfiledResult<Todos>;
+    expect(resource.status).toBe('fulfilled');
+    expect(resource.result).toBe(previous.result);
+    expect(resource.$version).toBe(previous.$version);
+    expect(watcher).not.toHaveBeenCalled();
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    unsubscribe();
+    unwatch();
+  });
+
+  it('should reuse unchanged parts of a changed result', async () => {
+    await suspenseWrappedFetchResource(fetchTodos(['a', 'b']));
+    const previous = getResourceByKey('test') as FullfiledResult<Todos>;
+
+    fetchResource('test', fetchTodos(['a', 'c']), {
+      force: true,
+      structuralSharing: true,
+    });
+    await (getResourceByKey('test') as RevalidatingResource<Todos>).suspender;
+
+    const resource = getResourceByKey('test') as FullfiledResult<Todos>;
+    expect(resource.result).not.toBe(previous.result);
+    expect(resource.result.items[0]).toBe(previous.result.items[0]);
+    expect(resource.result.items[1]).toEqual({ id: 1, title: 'c' });
+    expect(resource.$version).toBe(previous.$version + 1);
+  });
+
+  it('should store a new result by default', async () => {
+    await suspenseWrappedFetchResource(fetchTodos(['a']));
+    const previous = getResourceByKey('test') as FullfiledResult<Todos>;
+
+    fetchResource('test', fetchTodos(['a']), { force: true });
+    await (getResourceByKey('test') as RevalidatingResource<Todos>).suspender;
+
+    const resource = getResourceByKey('test') as FullfiledResult<Todos>;
+    expect(resource.result).not.toBe(previous.result);
+    expect(resource.result).toEqual(previous.result);
+    expect(resource.$version).toBe(previous.$version + 1);
+  });
+
+  it('should bump the version of the same object by default', async () => {
+    const todos: Todos = { items: [], total: 0 };
+    await suspenseWrappedFetchResource(() => Promise.resolve(todos));
+    const previous = getResourceByKey('test') as FullfiledResult<Todos>;
+    const watcher = vi.fn();
+    const unwatch = defaultResourceStore.watch(watcher);
+
+    todos.total = 1;
+    fetchResource('test', () => Promise.resolve(todos), { force: true });
+    watcher.mockClear();
+    await (getResourceByKey('test') as RevalidatingResource<Todos>).suspender;
+
+    const resource = getResourceByKey('test') as FullfiledResult<Todos>;
+    expect(resource.result).toBe(todos);
+    expect(resource.$version).toBe(previous.$version + 1);
+    expect(watcher).toHaveBeenCalled();
+    unwatch();
+  });
+});
+
+describe('fetchResource - dependencies', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  const user = {
+    key: 'user',
+    fetcher: vi.fn(() => Promise.resolve({ id: 1 })),
+  };
+
+  beforeEach(() => {
+    user.fetcher.mockClear();
+  });
+
+  function fetchPosts(fetcher = vi.fn((_context: FetchContext) => 'posts')) {
+    try {
+      fetchResource('posts', fetcher, { dependsOn: [user] });
+    } catch (thrown) {
+      if (!isPromise(thrown)) throw thrown;
+    }
+    return fetcher;
+  }
+
+  function settle(key: string) {
+    const resource = getResourceByKey(key);
+    return resource?.status === 'pending' || resource?.status === 'revalidating'
+      ? resource.suspender
+      : Promise.resolve();
+  }
+
+  it('should fetch the dependencies and pass their results to the fetcher', async () => {
+    const fetcher = fetchPosts();
+    await settle('posts');
+
+    expect(user.fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0].dependencies).toEqual([{ id: 1 }]);
+    expect(getResourceByKey('user')?.status).toBe('fulfilled');
+    expect(getResourceByKey('posts')?.status).toBe('fulfilled');
+  });
+
+  it('should wait for a dependency that is already in flight', async () => {
+    fetchResource('user', () => syncFetcher({ id: 2 }, 10), {
+      suspense: false,
+    });
+    const fetcher = fetchPosts();
+    expect(fetcher).not.toHaveBeenCalled();
+
+    await settle('posts');
+    expect(user.fetcher).not.toHaveBeenCalled();
+    expect(fetcher.mock.calls[0][0].dependencies).toEqual([{ id: 2 }]);
+  });
+
+  it('should reject with the error of a failed dependency', async () => {
+    fetchResource('user', () => Promise.reject(new Error('no user')), {
+      suspense: false,
+    });
+    const fetcher = fetchPosts();
+    await settle('posts');
+
+    const resource = getResourceByKey('posts') as ErroredResult<string>;
+    expect(resource.status).toBe('rejected');
+    expect(resource.error.message).toBe('no user');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate dependents together with a dependency', async () => {
+    fetchPosts();
+    await settle('posts');
+
+    await invalidate('user', { exact: true });
+    expect(getResourceByKey('posts')?.invalidated).toBe(true);
+
+    user.fetcher.mockResolvedValueOnce({ id: 3 });
+    const fetcher = fetchPosts();
+    await settle('posts');
+    expect(user.fetcher).toHaveBeenCalledTimes(2);
+    expect(fetcher.mock.calls[0][0].dependencies).toEqual([{ id: 3 }]);
+  });
+
+  it('should invalidate dependents when a dependency is mutated', async () => {
+    fetchPosts();
+    await settle('posts');
+
+    mutate('user', { id: 4 });
+    expect(getResourceByKey('posts')?.invalidated).toBe(true);
+
+    const fetcher = fetchPosts();
+    await settle('posts');
+    expect(user.fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0].dependencies).toEqual([{ id: 4 }]);
+  });
+});
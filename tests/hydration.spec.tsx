@@ -0,0 +1,134 @@
+import { render } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
+import React from 'react';
+import { createResourceStore } from '../src/resource-store';
+import { createFetchResource } from '../src/fetch-resource';
+import { createPrefetch } from '../src/prefetch';
+import { dehydrate, hydrate } from '../src/hydration';
+import { ResourceProvider } from '../src/resource-provider';
+import useResource from '../src/use-resource';
+
+import { describe, expect, it, vi } from 'vitest';
+
+describe('dehydrate', () => {
+  it('should serialize settled resources with their original keys', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource(['user', { id: 1 }], () => 'Ada');
+    fetchResource('broken', () => {
+      throw new TypeError('Not found');
+    });
+    fetchResource('loading', () => new Promise(() => {}), { suspense: false });
+
+    const state = JSON.parse(JSON.stringify(dehydrate(store)));
+
+    expect(state.resources).toEqual([
+      {
+        key: ['user', { id: 1 }],
+        status: 'fulfilled',
+        result: 'Ada',
+        timestamp: expect.any(Number),
+        $version: 0,
+      },
+      {
+        key: 'broken',
+        status: 'rejected',
+        error: { name: 'TypeError', message: 'Not found' },
+        timestamp: expect.any(Number),
+        $version: 0,
+      },
+    ]);
+  });
+
+  it('should only include resources accepted by shouldDehydrate', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('public', () => 'data');
+    fetchResource('session', () => 'secret');
+
+    const state = dehydrate(store, {
+      shouldDehydrate: key => key !== 'session',
+    });
+    expect(state.resources.map(({ key }) => key)).toEqual(['public']);
+  });
+});
+
+describe('hydrate', () => {
+  it('should seed a store so fresh data is not refetched', () => {
+    const server = createResourceStore();
+    createFetchResource(server)('user', () => 'Ada');
+    createFetchResource(server)('broken', () => {
+      throw new Error('Not found');
+    });
+    const state = JSON.parse(JSON.stringify(dehydrate(server)));
+
+    const client = createResourceStore();
+    hydrate(client, state);
+
+    const fetcher = vi.fn(() => 'refetched');
+    expect(createFetchResource(client)('user', fetcher, { ttl: 60 })).toBe(
+      'Ada'
+    );
+    expect(fetcher).not.toHaveBeenCalled();
+    const error = client.getResourceByKey('broken');
+    expect(error?.status === 'rejected' && error.error).toBeInstanceOf(Error);
+  });
+
+  it('should keep entries that are newer than the snapshot', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('user', () => 'Ada');
+    const state = dehydrate(store);
+    store.mutate('user', 'Grace');
+
+    hydrate(store, {
+      resources: state.resources.map(resource => ({
+        ...resource,
+        timestamp: resource.timestamp - 1,
+      })),
+    });
+    expect(store.getResourceByKey('user')).toMatchObject({ result: 'Grace' });
+  });
+
+  it('should render server HTML on the client without refetching', async () => {
+    const fetcher = vi.fn(() => Promise.resolve('Ada'));
+    const User = () => {
+      const { data } = useResource(['user', 1], fetcher);
+      return <p>{data}</p>;
+    };
+    const App = ({
+      store,
+    }: {
+      store: ReturnType<typeof createResourceStore>;
+    }) => (
+      <ResourceProvider store={store}>
+        <React.Suspense fallback={<p>Loading</p>}>
+          <User />
+        </React.Suspense>
+      </ResourceProvider>
+    );
+
+    // One store per request on the server.
+    const server = createResourceStore();
+    await createPrefetch(server)(['user', 1], fetcher);
+    const html = renderToString(<App store={server} />);
+    const state = JSON.parse(JSON.stringify(dehydrate(server)));
+    expect(html).toContain('Ada');
+
+    const client = createResourceStore();
+    hydrate(client, state);
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    document.body.appendChild(container);
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const screen = render(<App store={client} />, { container, hydrate: true });
+
+    expect(screen.container.textContent).toBe('Ada');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
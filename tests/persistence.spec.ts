@@ -0,0 +1,250 @@
+import { createResourceStore } from '../src/resource-store';
+import { createFetchResource } from '../src/fetch-resource';
+import { PersistedResource } from '../src/persistence';
+import {
+  createIndexedDBStorage,
+  createLocalStorage,
+  createMemoryStorage,
+} from '../src/storage-adapters';
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+function persistedEntry(
+  overrides: Partial<PersistedResource> = {}
+): PersistedResource {
+  return {
+    key: 'user',
+    status: 'fulfilled',
+    result: 'Ada',
+    timestamp: Date.now(),
+    $version: 3,
+    buster: '',
+    ...overrides,
+  } as PersistedResource;
+}
+
+describe('resourceStore - persistence', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write settled resources in throttled batches', () => {
+    const entries = new Map<string, PersistedResource>();
+    const storage = createMemoryStorage(entries);
+    const set = vi.spyOn(storage, 'set');
+    const store = createResourceStore({ persist: { storage, throttle: 2 } });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource(['user', 1], () => 'Ada');
+    store.mutate(['user', 1], 'Grace');
+    expect(set).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(2_000);
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(entries.get('["user",1]')).toMatchObject({
+      key: ['user', 1],
+      status: 'fulfilled',
+      result: 'Grace',
+      $version: 1,
+      buster: '',
+    });
+  });
+
+  it('should restore synchronous storage before the first fetch', () => {
+    const storage = createMemoryStorage(new Map([['user', persistedEntry()]]));
+    const store = createResourceStore({ persist: { storage } });
+    const fetcher = vi.fn(() => 'refetched');
+
+    expect(createFetchResource(store)('user', fetcher, { ttl: 60 })).toBe(
+      'Ada'
+    );
+    expect(store.getResourceByKey('user')).toMatchObject({ $version: 3 });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should only persist keys accepted by shouldPersist', () => {
+    const entries = new Map<string, PersistedResource>();
+    const store = createResourceStore({
+      persist: {
+        storage: createMemoryStorage(entries),
+        shouldPersist: key => Array.isArray(key) && key[0] === 'todos',
+      },
+    });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource(['todos', 1], () => 'todo');
+    fetchResource(['session'], () => 'secret');
+    vi.advanceTimersByTime(1_000);
+
+    expect(Array.from(entries.keys())).toEqual(['["todos",1]']);
+  });
+
+  it('should discard entries older than maxAge or with another buster', () => {
+    const entries = new Map([
+      ['fresh', persistedEntry({ key: 'fresh', buster: 'v2' })],
+      [
+        'old',
+        persistedEntry({
+          key: 'old',
+          buster: 'v2',
+          timestamp: Date.now() - 120_000,
+        }),
+      ],
+      ['outdated', persistedEntry({ key: 'outdated', buster: 'v1' })],
+    ]);
+    const store = createResourceStore({
+      persist: {
+        storage: createMemoryStorage(entries),
+        maxAge: 60,
+        buster: 'v2',
+      },
+    });
+
+    expect(Array.from(store.cache.keys())).toEqual(['fresh']);
+    expect(Array.from(entries.keys())).toEqual(['fresh']);
+  });
+
+  it('should skip and delete entries that cannot be read', () => {
+    localStorage.clear();
+    localStorage.setItem('use-resource:user', JSON.stringify(persistedEntry()));
+    localStorage.setItem('use-resource:broken', '{"key":');
+    const store = createResourceStore({
+      persist: { storage: createLocalStorage() },
+    });
+
+    expect(Array.from(store.cache.keys())).toEqual(['user']);
+    expect(localStorage.getItem('use-resource:broken')).toBeNull();
+  });
+
+  it('should restore invalidated keys as stale', () => {
+    const entries = new Map<string, PersistedResource>();
+    const storage = createMemoryStorage(entries);
+    const store = createResourceStore({ persist: { storage } });
+    createFetchResource(store)('user', () => 'Ada');
+    vi.advanceTimersByTime(1_000);
+
+    store.invalidate('user');
+    vi.advanceTimersByTime(1_000);
+
+    const restored = createResourceStore({ persist: { storage } });
+    const fetcher = vi.fn(() => 'Grace');
+    expect(createFetchResource(restored)('user', fetcher, { ttl: 60 })).toBe(
+      'Grace'
+    );
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush pending writes when the page is hidden', () => {
+    const entries = new Map<string, PersistedResource>();
+    const store = createResourceStore({
+      persist: { storage: createMemoryStorage(entries), throttle: 10 },
+    });
+    createFetchResource(store)('user', () => 'Ada');
+    expect(entries.size).toBe(0);
+
+    window.dispatchEvent(new Event('pagehide'));
+    expect(entries.get('user')).toMatchObject({ result: 'Ada' });
+  });
+});
+
+describe('createLocalStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should store JSON under a prefix and list only its own keys', () => {
+    localStorage.setItem('unrelated', '1');
+    const storage = createLocalStorage({ prefix: 'app:' });
+
+    storage.set('user', persistedEntry());
+    expect(JSON.parse(localStorage.getItem('app:user')!)).toMatchObject({
+      result: 'Ada',
+    });
+    expect(storage.keys()).toEqual(['user']);
+    expect(storage.get('user')).toMatchObject({ result: 'Ada' });
+
+    storage.delete('user');
+    expect(storage.keys()).toEqual([]);
+    expect(storage.get('user')).toBeUndefined();
+  });
+});
+
+describe('createIndexedDBStorage', () => {
+  // Implements the part of the IndexedDB API used by the adapter.
+  function createFakeIndexedDB() {
+    const databases = new Map<string, Map<string, Map<string, unknown>>>();
+
+    function request<T>(execute: () => T, upgrade = false) {
+      const request = {
+        result: undefined as T | undefined,
+        onsuccess: null as (() => void) | null,
+        onupgradeneeded: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+      };
+      setTimeout(() => {
+        request.result = execute();
+        if (upgrade) request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    }
+
+    return {
+      open(name: string) {
+        const isNew = !databases.has(name);
+        const stores = databases.get(name) ?? new Map();
+        databases.set(name, stores);
+        const database = {
+          createObjectStore: (storeName: string) =>
+            stores.set(storeName, new Map()),
+          transaction: (storeName: string) => ({
+            objectStore: () => {
+              const entries = stores.get(storeName)!;
+              return {
+                get: (key: string) => request(() => entries.get(key)),
+                put: (value: unknown, key: string) =>
+                  request(() => entries.set(key, value)),
+                delete: (key: string) => request(() => entries.delete(key)),
+                getAllKeys: () => request(() => Array.from(entries.keys())),
+              };
+            },
+          }),
+        };
+        return request(() => database, isNew);
+      },
+    } as unknown as IDBFactory;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should persist and restore resources asynchronously', async () => {
+    const indexedDB = createFakeIndexedDB();
+    const first = createResourceStore({
+      persist: { storage: createIndexedDBStorage({ indexedDB }) },
+    });
+    createFetchResource(first)(['user', 1], () => 'Ada');
+    await vi.runAllTimersAsync();
+
+    const second = createResourceStore({
+      persist: { storage: createIndexedDBStorage({ indexedDB }) },
+    });
+    expect(second.cache.size).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await second.restored;
+    expect(second.getResourceByKey(['user', 1])).toMatchObject({
+      status: 'fulfilled',
+      result: 'Ada',
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { render } from '@testing-library/react';
+import React from 'react';
+import { createResourceStore } from '../src/resource-store';
+import { createFetchResource } from '../src/fetch-resource';
+import { createPrefetch } from '../src/prefetch';
+import { ResourceProvider } from '../src/resource-provider';
+import useResource from '../src/use-resource';
+
+import { describe, expect, it, vi } from 'vitest';
+
+describe('prefetch', () => {
+  it('should populate the store without throwing a suspender', async () => {
+    const store = createResourceStore();
+    const prefetch = createPrefetch(store);
+    const fetcher = vi.fn(() => Promise.resolve('user'));
+
+    const prefetching = prefetch('user', fetcher);
+    expect(store.getResourceByKey('user')?.status).toBe('pending');
+
+    await expect(prefetching).resolves.toBeUndefined();
+    expect(store.getResourceByKey('user')).toMatchObject({
+      status: 'fulfilled',
+      result: 'user',
+    });
+  });
+
+  it('should reuse a request in flight and skip fresh data', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    const prefetch = createPrefetch(store);
+    const fetcher = vi.fn(() => Promise.resolve('user'));
+
+    fetchResource('user', fetcher, { suspense: false });
+    await prefetch('user', fetcher);
+    await prefetch('user', fetcher, { ttl: 60 });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never reject', async () => {
+    const store = createResourceStore();
+    const prefetch = createPrefetch(store);
+
+    await expect(
+      prefetch('user', () => Promise.reject(new Error('Not found')))
+    ).resolves.toBeUndefined();
+    await expect(
+      prefetch('other', () => {
+        throw new Error('Not found');
+      })
+    ).resolves.toBeUndefined();
+    expect(store.getResourceByKey('user')?.status).toBe('rejected');
+  });
+
+  it('should let a later useResource render without suspending', async () => {
+    const store = createResourceStore();
+    const prefetch = createPrefetch(store);
+    const fetcher = vi.fn(() => Promise.resolve('Prefetched'));
+    await prefetch(['user', 1], fetcher);
+
+    const User = () => {
+      const { data } = useResource(['user', 1], fetcher);
+      return <div data-testid="data">{data}</div>;
+    };
+    const screen = render(
+      <ResourceProvider store={store}>
+        <React.Suspense fallback={<div data-testid="fallback" />}>
+          <User />
+        </React.Suspense>
+      </ResourceProvider>
+    );
+
+    expect(screen.queryByTestId('fallback')).toBeNull();
+    expect(screen.getByTestId('data').textContent).toBe('Prefetched');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { hashKey, matchesKeyPrefix } from '../src/resource-key';
+import { createFetchResource } from '../src/fetch-resource';
+import { createResourceStore } from '../src/resource-store';
+
+import { describe, it, expect } from 'vitest';
+
+describe('hashKey', () => {
+  it('should use string keys as is', () => {
+    expect(hashKey('todos')).toBe('todos');
+  });
+
+  it('should hash arrays deterministically', () => {
+    expect(hashKey(['posts', 1])).toBe(hashKey(['posts', 1]));
+    expect(hashKey(['posts', 1])).not.toBe(hashKey(['posts', 2]));
+    expect(hashKey(['posts', 1])).not.toBe(hashKey([1, 'posts']));
+  });
+
+  it('should ignore object property order at any depth', () => {
+    expect(hashKey(['posts', { userId: 1, page: 2 }])).toBe(
+      hashKey(['posts', { page: 2, userId: 1 }])
+    );
+    expect(hashKey({ a: { c: 1, d: 2 }, b: [1] })).toBe(
+      hashKey({ b: [1], a: { d: 2, c: 1 } })
+    );
+  });
+
+  it('should distinguish different values', () => {
+    expect(hashKey({ page: 1 })).not.toBe(hashKey({ page: '1' }));
+    expect(hashKey(['posts'])).not.toBe(hashKey('posts'));
+  });
+
+  it('should not collide strings with serialized keys', () => {
+    expect(hashKey('["todos"]')).not.toBe(hashKey(['todos']));
+    expect(hashKey('{"id":1}')).not.toBe(hashKey({ id: 1 }));
+    expect(hashKey(JSON.stringify('todos'))).not.toBe(hashKey('todos'));
+  });
+});
+
+describe('structured keys in the store', () => {
+  it('should cache under the hash and keep the original key', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    const key = ['posts', { userId: 1, page: 2 }];
+
+    fetchResource(key, () => 'page 2');
+
+    const hash = hashKey(key);
+    expect(store.cache.has(hash)).toBe(true);
+    expect(store.keys.get(hash)).toBe(key);
+    expect(
+      store.getResourceByKey(['posts', { page: 2, userId: 1 }])?.status
+    ).toBe('fulfilled');
+  });
+
+  it('should mutate and evict by structured key', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+
+    fetchResource(['todo', { id: 1 }], () => 'todo');
+    expect(store.mutate(['todo', { id: 1 }], 'updated')).toBe(true);
+    expect(fetchResource(['todo', { id: 1 }], () => 'todo')).toBe('updated');
+
+    expect(store.evict(['todo', { id: 1 }])).toBe(true);
+    expect(store.keys.size).toBe(0);
+  });
+
+  it('should keep string keys that look serialized apart', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+
+    fetchResource(['todos'], () => 'array');
+    expect(fetchResource('["todos"]', () => 'string')).toBe('string');
+    expect(store.getResourceByKey(['todos'])).toMatchObject({
+      result: 'array',
+    });
+    expect(store.keys.get(hashKey('["todos"]'))).toBe('["todos"]');
+  });
+});
+
+describe('matchesKeyPrefix', () => {
+  it('should match string keys by prefix', () => {
+    expect(matchesKeyPrefix('todos', 'todos-1')).toBe(true);
+    expect(matchesKeyPrefix('todos', 'users')).toBe(false);
+    expect(matchesKeyPrefix('todos', ['todos'])).toBe(false);
+  });
+
+  it('should match leading array elements and partial objects', () => {
+    expect(matchesKeyPrefix(['todos'], ['todos', { id: 1 }])).toBe(true);
+    expect(matchesKeyPrefix(['todos', { done: true }], ['todos'])).toBe(false);
+    expect(
+      matchesKeyPrefix(
+        ['todos', { done: true }],
+        ['todos', { done: true, page: 2 }]
+      )
+    ).toBe(true);
+    expect(matchesKeyPrefix(['todos'], ['todos-archive'])).toBe(false);
+    expect(matchesKeyPrefix({ type: 'todo' }, { id: 1, type: 'todo' })).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,789 @@
+import { createFetchResource } from '../src/fetch-resource';
+import { createResourceStore, type StoreEvent } from '../src/resource-store';
+import { type RevalidateEventSource } from '../src/event-sources';
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+describe('resourceStore - garbage collection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should evict a key once it has had no subscribers for gcTime', () => {
+    const onEvict = vi.fn();
+    const store = createResourceStore({ gcTime: 10, onEvict });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('gc', () => 'data');
+    const unsubscribe = store.subscribe('gc', () => {});
+    vi.advanceTimersByTime(20_000);
+    expect(store.cache.has('gc')).toBe(true);
+
+    unsubscribe();
+    vi.advanceTimersByTime(9_000);
+    expect(store.cache.has('gc')).toBe(true);
+
+    vi.advanceTimersByTime(1_000);
+    expect(store.cache.has('gc')).toBe(false);
+    expect(onEvict).toHaveBeenCalledWith(
+      'gc',
+      expect.objectContaining({ status: 'fulfilled', result: 'data' })
+    );
+  });
+
+  it('should cancel a scheduled eviction when the key is subscribed again', () => {
+    const store = createResourceStore({ gcTime: 10 });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('gc', () => 'data');
+    vi.advanceTimersByTime(5_000);
+    const unsubscribe = store.subscribe('gc', () => {});
+    vi.advanceTimersByTime(20_000);
+    expect(store.cache.has('gc')).toBe(true);
+    unsubscribe();
+  });
+
+  it('should prefer a per-key gcTime over the store default', () => {
+    const store = createResourceStore({ gcTime: 100 });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('short', () => 'data', { gcTime: 1 });
+    fetchResource('default', () => 'data');
+    vi.advanceTimersByTime(1_000);
+
+    expect(store.cache.has('short')).toBe(false);
+    expect(store.cache.has('default')).toBe(true);
+  });
+
+  it('should not evict a key while a request is in flight', async () => {
+    const store = createResourceStore({ gcTime: 1 });
+    const fetchResource = createFetchResource(store);
+
+    try {
+      fetchResource(
+        'slow',
+        () => new Promise(resolve => setTimeout(() => resolve('data'), 5_000))
+      );
+    } catch {}
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(store.cache.get('slow')?.status).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(store.cache.get('slow')?.status).toBe('fulfilled');
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(store.cache.has('slow')).toBe(false);
+  });
+
+  it('should never evict when gcTime is Infinity', () => {
+    const store = createResourceStore({ gcTime: Infinity });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('forever', () => 'data');
+    vi.advanceTimersByTime(1_000_000_000);
+    expect(store.cache.has('forever')).toBe(true);
+  });
+});
+
+describe('resourceStore - maxEntries', () => {
+  it('should evict the least recently used unused keys', () => {
+    const onEvict = vi.fn();
+    const store = createResourceStore({ maxEntries: 2, onEvict });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('a', () => 'a');
+    fetchResource('b', () => 'b');
+    store.mutate('a', 'a2');
+    fetchResource('c', () => 'c');
+
+    expect([...store.cache.keys()]).toEqual(['a', 'c']);
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict.mock.calls[0][0]).toBe('b');
+  });
+
+  it('should count cache reads as use', () => {
+    const store = createResourceStore({ maxEntries: 2 });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('a', () => 'a');
+    fetchResource('b', () => 'b');
+    fetchResource('a', () => 'a');
+    fetchResource('c', () => 'c');
+
+    expect([...store.cache.keys()]).toEqual(['a', 'c']);
+  });
+
+  it('should pass the original key to onEvict', () => {
+    const onEvict = vi.fn();
+    const store = createResourceStore({ maxEntries: 1, onEvict });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource(['todos', { page: 1 }], () => 'page 1');
+    fetchResource(['todos', { page: 2 }], () => 'page 2');
+
+    expect(onEvict).toHaveBeenCalledWith(['todos', { page: 1 }], {
+      status: 'fulfilled',
+      result: 'page 1',
+      timestamp: expect.any(Number),
+      $version: 0,
+    });
+  });
+
+  it('should keep subscribed keys above the cap', () => {
+    const store = createResourceStore({ maxEntries: 1 });
+    const fetchResource = createFetchResource(store);
+
+    fetchResource('a', () => 'a');
+    const unsubscribe = store.subscribe('a', () => {});
+    fetchResource('b', () => 'b');
+
+    expect([...store.cache.keys()]).toEqual(['a', 'b']);
+    unsubscribe();
+  });
+});
+
+describe('resourceStore - polling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createPolledStore() {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    let count = 0;
+    const fetcher = vi.fn(() => ++count);
+    const revalidate = () => fetchResource('poll', fetcher, { force: true });
+    fetchResource('poll', fetcher);
+    return { store, fetcher, revalidate };
+  }
+
+  it('should revalidate once per interval for all pollers of a key', () => {
+    const { store, fetcher, revalidate } = createPolledStore();
+    const stopA = store.poll('poll', { interval: () => 1, revalidate });
+    const stopB = store.poll('poll', { interval: () => 1, revalidate });
+
+    vi.advanceTimersByTime(3_000);
+    expect(fetcher).toHaveBeenCalledTimes(4);
+
+    stopA();
+    stopB();
+    vi.advanceTimersByTime(3_000);
+    expect(fetcher).toHaveBeenCalledTimes(4);
+  });
+
+  it('should use the shortest interval and derive it from the latest data', () => {
+    const { store, fetcher, revalidate } = createPolledStore();
+    const stopA = store.poll('poll', { interval: () => 5, revalidate });
+    const stopB = store.poll('poll', {
+      interval: data => ((data as number) < 3 ? 1 : 0),
+      revalidate,
+    });
+
+    vi.advanceTimersByTime(2_000);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    vi.advanceTimersByTime(4_000);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    vi.advanceTimersByTime(1_000);
+    expect(fetcher).toHaveBeenCalledTimes(4);
+
+    stopA();
+    stopB();
+  });
+
+  it('should pause while the document is hidden unless refreshWhenHidden', () => {
+    const visibility = vi
+      .spyOn(document, 'visibilityState', 'get')
+      .mockReturnValue('hidden');
+    const { store, fetcher, revalidate } = createPolledStore();
+    const stop = store.poll('poll', { interval: () => 1, revalidate });
+
+    vi.advanceTimersByTime(3_000);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    const stopHidden = store.poll('poll', {
+      interval: () => 1,
+      refreshWhenHidden: true,
+      revalidate,
+    });
+    vi.advanceTimersByTime(1_000);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    stop();
+    stopHidden();
+    visibility.mockRestore();
+  });
+});
+
+describe('resourceStore - focus and reconnect events', () => {
+  function createEventSource() {
+    const listeners = new Set<() => void>();
+    const source: RevalidateEventSource = listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    };
+    return { source, listeners, emit: () => listeners.forEach(l => l()) };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should revalidate keys with active subscribers once per event', () => {
+    const focus = createEventSource();
+    const store = createResourceStore({ focusSource: focus.source });
+    const subscribed = vi.fn();
+    const duplicate = vi.fn();
+    const unused = vi.fn();
+
+    const unsubscribe = store.subscribe('subscribed', () => {});
+    store.listen('focus', 'subscribed', subscribed);
+    store.listen('focus', 'subscribed', duplicate);
+    store.listen('focus', 'unused', unused);
+
+    focus.emit();
+    expect(subscribed).toHaveBeenCalledTimes(1);
+    expect(duplicate).not.toHaveBeenCalled();
+    expect(unused).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('should throttle bursts of events', () => {
+    const reconnect = createEventSource();
+    const store = createResourceStore({
+      reconnectSource: reconnect.source,
+      eventThrottle: 2,
+    });
+    const revalidate = vi.fn();
+    const unsubscribe = store.subscribe('key', () => {});
+    store.listen('reconnect', 'key', revalidate);
+
+    reconnect.emit();
+    reconnect.emit();
+    expect(revalidate).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2_000);
+    reconnect.emit();
+    expect(revalidate).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('should attach to the event source only while there are listeners', () => {
+    const focus = createEventSource();
+    const store = createResourceStore({ focusSource: focus.source });
+
+    expect(focus.listeners.size).toBe(0);
+    const stopA = store.listen('focus', 'a', () => {});
+    const stopB = store.listen('focus', 'b', () => {});
+    expect(focus.listeners.size).toBe(1);
+
+    stopA();
+    expect(focus.listeners.size).toBe(1);
+    stopB();
+    expect(focus.listeners.size).toBe(0);
+  });
+});
+
+describe('resourceStore - invalidate', () => {
+  it('should mark matching keys stale so the next fetch revalidates', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    let version = 0;
+    const fetcher = () => `v${++version}`;
+
+    fetchResource(['todos', 1], fetcher, { ttl: 60 });
+    fetchResource(['todos', 2], fetcher, { ttl: 60 });
+    fetchResource(['users', 1], fetcher, { ttl: 60 });
+
+    store.invalidate(['todos']);
+
+    expect(fetchResource(['users', 1], fetcher, { ttl: 60 })).toBe('v3');
+    expect(fetchResource(['todos', 1], fetcher, { ttl: 60 })).toBe('v4');
+    expect(fetchResource(['todos', 2], fetcher, { ttl: 60 })).toBe('v5');
+    expect(fetchResource(['todos', 2], fetcher, { ttl: 60 })).toBe('v5');
+  });
+
+  it('should match exact keys and predicates', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => 'todos');
+    fetchResource('todos-archive', () => 'archive');
+    fetchResource({ type: 'user', id: 1 }, () => 'user');
+
+    store.invalidate('todos', { exact: true });
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      invalidated: true,
+    });
+    expect(store.getResourceByKey('todos-archive')).not.toHaveProperty(
+      'invalidated'
+    );
+
+    store.invalidate(
+      (key, resource) =>
+        typeof key === 'object' && resource.status === 'fulfilled'
+    );
+    expect(store.getResourceByKey({ id: 1, type: 'user' })).toMatchObject({
+      invalidated: true,
+    });
+  });
+
+  it('should refetch subscribed keys immediately and resolve once settled', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    let version = 0;
+    const fetcher = () => Promise.resolve(`v${++version}`);
+    try {
+      fetchResource('todos', fetcher);
+    } catch (suspender) {
+      await suspender;
+    }
+
+    const revalidate = vi.fn(() => {
+      try {
+        fetchResource('todos', fetcher, { force: true });
+      } catch {
+        // Suspenders are awaited through `invalidate`.
+      }
+    });
+    const unsubscribe = store.subscribe('todos', () => {});
+    const stop = store.revalidator('todos', revalidate);
+
+    const settled = store.invalidate('todos');
+    expect(revalidate).toHaveBeenCalledTimes(1);
+    expect(store.getResourceByKey('todos')?.status).toBe('revalidating');
+
+    await settled;
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      status: 'fulfilled',
+      result: 'v2',
+    });
+    stop();
+    unsubscribe();
+  });
+
+  it('should mark the result of a request in flight as invalidated', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    let version = 0;
+    const fetcher = () => Promise.resolve(`v${++version}`);
+
+    let suspender: unknown;
+    try {
+      fetchResource('todos', fetcher);
+    } catch (thrown) {
+      suspender = thrown;
+    }
+    await store.invalidate('todos');
+    await suspender;
+
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      status: 'fulfilled',
+      result: 'v1',
+      invalidated: true,
+    });
+    expect(fetchResource('todos', fetcher, { suspense: false })).toBe('v1');
+    expect(store.getResourceByKey('todos')?.status).toBe('revalidating');
+  });
+});
+
+describe('resourceStore - mutate', () => {
+  function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  }
+
+  it('should not write a key that is not cached', async () => {
+    const store = createResourceStore();
+    const update = vi.fn((todos: string[] | undefined) => todos ?? []);
+    const save = vi.fn((todos: string[] | undefined) =>
+      Promise.resolve(todos ?? [])
+    );
+
+    expect(store.mutate('todos', update)).toBe(false);
+    await expect(store.mutate('todos', save)).resolves.toBe(false);
+    expect(save).toHaveBeenCalledWith(undefined);
+    await expect(
+      store.mutate('todos', Promise.reject(new Error('Failed to save')))
+    ).rejects.toThrow('Failed to save');
+    expect(store.cache.has('todos')).toBe(false);
+  });
+
+  it('should pass the current data to an updater function', () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => ['a']);
+
+    expect(
+      store.mutate<string[]>('todos', todos => [...(todos ?? []), 'b'])
+    ).toBe(true);
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      result: ['a', 'b'],
+      $version: 1,
+    });
+  });
+
+  it('should show optimistic data until the update resolves', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => ['a']);
+    const update = deferred<string[]>();
+
+    const mutation = store.mutate('todos', update.promise, {
+      optimisticData: (todos?: string[]) => [...(todos ?? []), 'b'],
+    });
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      result: ['a', 'b'],
+      $version: 1,
+    });
+
+    update.resolve(['a', 'b', 'c']);
+    await expect(mutation).resolves.toBe(true);
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      result: ['a', 'b', 'c'],
+      $version: 2,
+    });
+  });
+
+  it('should roll back to the exact previous snapshot on error', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => ['a']);
+    const snapshot = store.getResourceByKey('todos');
+    const update = deferred<string[]>();
+    const listener = vi.fn();
+    store.subscribe('todos', listener);
+
+    const mutation = store.mutate('todos', update.promise, {
+      optimisticData: ['a', 'b'],
+    });
+    update.reject(new Error('Failed to add todo'));
+
+    await expect(mutation).rejects.toThrow('Failed to add todo');
+    expect(store.getResourceByKey('todos')).toBe(snapshot);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep optimistic data when rollbackOnError is false', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => ['a']);
+
+    const mutation = store.mutate(
+      'todos',
+      Promise.reject<string[]>(new Error('Failed')),
+      { optimisticData: ['a', 'b'], rollbackOnError: false }
+    );
+
+    await expect(mutation).rejects.toThrow('Failed');
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      result: ['a', 'b'],
+    });
+  });
+
+  it('should supersede an in-flight revalidation', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => ['a']);
+    const revalidation = deferred<string[]>();
+    const signals: AbortSignal[] = [];
+
+    fetchResource(
+      'todos',
+      ({ signal }) => {
+        signals.push(signal);
+        return revalidation.promise;
+      },
+      { force: true }
+    );
+    expect(store.getResourceByKey('todos')?.status).toBe('revalidating');
+
+    expect(store.mutate('todos', ['mutated'])).toBe(true);
+    expect(signals[0].aborted).toBe(true);
+
+    revalidation.resolve(['server']);
+    await vi.waitFor(() => expect(store.requests.size).toBe(0));
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      status: 'fulfilled',
+      result: ['mutated'],
+    });
+  });
+
+  it('should only let the latest concurrent update commit', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('count', () => 0);
+    const first = deferred<number>();
+    const second = deferred<number>();
+
+    const firstMutation = store.mutate('count', first.promise);
+    const secondMutation = store.mutate('count', second.promise);
+    second.resolve(2);
+    first.resolve(1);
+
+    await expect(secondMutation).resolves.toBe(true);
+    await expect(firstMutation).resolves.toBe(false);
+    expect(store.getResourceByKey('count')).toMatchObject({ result: 2 });
+  });
+
+  it('should invalidate the key after the update when revalidate is set', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource('todos', () => ['a']);
+
+    await store.mutate('todos', Promise.resolve(['a', 'b']), {
+      revalidate: true,
+    });
+    expect(store.getResourceByKey('todos')).toMatchObject({
+      result: ['a', 'b'],
+      invalidated: true,
+    });
+  });
+});
+
+describe('resourceStore - mutation states', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should notify subscribers of call states without telling watchers', () => {
+    const store = createResourceStore();
+    const listener = vi.fn();
+    const watcher = vi.fn();
+    store.subscribe('$mutation:1', listener);
+    store.watch(watcher);
+
+    store.setMutation('$mutation:1', {
+      id: 1,
+      status: 'pending',
+      variables: 'a',
+    });
+    store.setMutation('$mutation:1', {
+      id: 1,
+      status: 'success',
+      variables: 'a',
+      data: 'A',
+    });
+    expect(store.getMutations('$mutation:1')).toEqual([
+      { id: 1, status: 'success', variables: 'a', data: 'A' },
+    ]);
+
+    store.resetMutations('$mutation:1');
+    // Calls dropped by a reset are no longer tracked.
+    store.setMutation('$mutation:1', {
+      id: 1,
+      status: 'error',
+      variables: 'a',
+    });
+    expect(store.getMutations('$mutation:1')).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(watcher).not.toHaveBeenCalled();
+  });
+
+  it('should collect the states once the key has been unused for gcTime', () => {
+    vi.useFakeTimers();
+    const store = createResourceStore({ gcTime: 10 });
+    const unsubscribe = store.subscribe('$mutation:1', () => {});
+    store.setMutation('$mutation:1', {
+      id: 1,
+      status: 'pending',
+      variables: 'a',
+    });
+
+    unsubscribe();
+    vi.advanceTimersByTime(10_000);
+    expect(store.getMutations('$mutation:1')).toEqual([]);
+  });
+});
+
+describe('resourceStore - events', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function setup(options?: Parameters<typeof createResourceStore>[0]) {
+    const store = createResourceStore(options);
+    const fetchResource = createFetchResource(store);
+    const events: StoreEvent[] = [];
+    store.onEvent(event => events.push(event));
+    return { store, fetchResource, events };
+  }
+
+  function delayed<T>(value: T, ms: number) {
+    return () =>
+      new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+  }
+
+  it('should report the start and duration of a successful fetch', async () => {
+    const onSuccess = vi.fn();
+    const { fetchResource, events } = setup({ onSuccess });
+
+    fetchResource(['user', 1], delayed('Ada', 50), { suspense: false });
+    expect(events).toEqual([{ type: 'fetch:start', key: ['user', 1] }]);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(events[1]).toEqual({
+      type: 'fetch:success',
+      key: ['user', 1],
+      duration: 50,
+      version: 0,
+    });
+    expect(onSuccess).toHaveBeenCalledWith('Ada', ['user', 1]);
+  });
+
+  it('should report failed fetches once retries are exhausted', async () => {
+    const onError = vi.fn();
+    const { fetchResource, events } = setup({ onError });
+
+    fetchResource('user', () => Promise.reject(new Error('offline')), {
+      suspense: false,
+      retry: 1,
+      retryDelay: 1,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(events.map(event => event.type)).toEqual([
+      'fetch:start',
+      'fetch:error',
+    ]);
+    expect(events[1]).toMatchObject({ duration: 1000, version: 0 });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('offline');
+    expect(onError.mock.calls[0][1]).toBe('user');
+  });
+
+  it('should report cache hits and stale reads', () => {
+    const { fetchResource, events } = setup();
+    fetchResource('user', () => 'Ada', { ttl: 10 });
+    events.length = 0;
+
+    fetchResource('user', () => 'Ada', { ttl: 10 });
+    expect(events).toEqual([{ type: 'cache:hit', key: 'user', version: 0 }]);
+
+    vi.advanceTimersByTime(11_000);
+    events.length = 0;
+    fetchResource('user', () => 'Grace', { ttl: 10 });
+    expect(events.map(event => event.type)).toEqual([
+      'cache:stale',
+      'fetch:start',
+      'fetch:success',
+    ]);
+    expect(events[0]).toMatchObject({ version: 0 });
+    expect(events[2]).toMatchObject({ version: 1 });
+  });
+
+  it('should report mutations and evictions', async () => {
+    const { store, fetchResource, events } = setup({ gcTime: 1 });
+    fetchResource('user', () => 'Ada');
+    events.length = 0;
+
+    store.mutate('user', 'Grace');
+    await store
+      .mutate('user', Promise.reject(new Error('conflict')))
+      .catch(() => {});
+    vi.advanceTimersByTime(1000);
+
+    expect(events).toEqual([
+      { type: 'mutate', key: 'user', version: 1 },
+      {
+        type: 'mutate',
+        key: 'user',
+        version: 1,
+        error: new Error('conflict'),
+      },
+      { type: 'evict', key: 'user', version: 1 },
+    ]);
+  });
+
+  describe('with failing listeners', () => {
+    function throwing() {
+      throw new Error('Listener failed');
+    }
+
+    it('should keep the result of a synchronous fetch', () => {
+      const { fetchResource, store } = setup({ onSuccess: throwing });
+      store.onEvent(throwing);
+
+      expect(fetchResource('user', () => 'Ada')).toBe('Ada');
+      expect(store.getResourceByKey('user')).toMatchObject({
+        status: 'fulfilled',
+        result: 'Ada',
+      });
+      expect(() => vi.runAllTimers()).toThrow('Listener failed');
+    });
+
+    it('should settle an asynchronous fetch', async () => {
+      const { fetchResource, store } = setup({
+        onSuccess: throwing,
+        onError: throwing,
+      });
+      store.onEvent(throwing);
+
+      fetchResource('user', delayed('Ada', 50), { suspense: false });
+      const resource = store.getResourceByKey('user');
+      await expect(vi.advanceTimersByTimeAsync(50)).rejects.toThrow(
+        'Listener failed'
+      );
+
+      await expect(
+        resource?.status === 'pending' && resource.suspender
+      ).resolves.toBeUndefined();
+      expect(store.getResourceByKey('user')).toMatchObject({
+        status: 'fulfilled',
+        result: 'Ada',
+      });
+      expect(store.requests.has('user')).toBe(false);
+    });
+  });
+
+  it('should end cancelled and superseded requests with fetch:cancel', async () => {
+    const { store, fetchResource, events } = setup();
+
+    fetchResource('user', delayed('Ada', 50), { suspense: false });
+    vi.advanceTimersByTime(10);
+    fetchResource('user', delayed('Grace', 50), {
+      suspense: false,
+      force: true,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    store.cancel('user');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events).toEqual([
+      { type: 'fetch:start', key: 'user' },
+      { type: 'fetch:start', key: 'user' },
+      { type: 'fetch:cancel', key: 'user', duration: 10 },
+      { type: 'fetch:cancel', key: 'user', duration: 0 },
+    ]);
+  });
+
+  it('should stop reporting to removed listeners', () => {
+    const { store, fetchResource } = setup();
+    const listener = vi.fn();
+    const unsubscribe = store.onEvent(listener);
+    unsubscribe();
+
+    fetchResource('user', () => 'Ada');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
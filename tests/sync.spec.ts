@@ -0,0 +1,210 @@
+import { createResourceStore } from '../src/resource-store';
+import { createFetchResource } from '../src/fetch-resource';
+import { SyncMessage, SyncTransport, syncStore } from '../src/sync';
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// Delivers every message to all other transports of the hub, like a
+// BroadcastChannel between tabs.
+function createHub() {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const messages: SyncMessage[] = [];
+
+  function createTransport(): SyncTransport {
+    const own = new Set<(message: SyncMessage) => void>();
+    return {
+      postMessage: message => {
+        messages.push(message);
+        const clone = structuredClone(message);
+        listeners.forEach(listener => !own.has(listener) && listener(clone));
+      },
+      subscribe: listener => {
+        own.add(listener);
+        listeners.add(listener);
+        return () => {
+          own.delete(listener);
+          listeners.delete(listener);
+        };
+      },
+    };
+  }
+
+  return { createTransport, messages };
+}
+
+function createTab(hub: ReturnType<typeof createHub>) {
+  const store = createResourceStore();
+  const stop = syncStore(store, { transport: hub.createTransport() });
+  return { store, fetchResource: createFetchResource(store), stop };
+}
+
+describe('syncStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should share fulfilled writes and mutations with other stores', () => {
+    const hub = createHub();
+    const first = createTab(hub);
+    const second = createTab(hub);
+
+    first.fetchResource(['todos'], () => ['a']);
+    expect(second.store.getResourceByKey(['todos'])).toMatchObject({
+      status: 'fulfilled',
+      result: ['a'],
+      $version: 0,
+    });
+
+    first.store.mutate(['todos'], ['a', 'b']);
+    expect(second.store.getResourceByKey(['todos'])).toMatchObject({
+      result: ['a', 'b'],
+      $version: 1,
+    });
+    expect(hub.messages).toHaveLength(2);
+  });
+
+  it('should ignore updates written before the local resource', () => {
+    const hub = createHub();
+    const first = createTab(hub);
+    const second = createTab(hub);
+    first.fetchResource('count', () => 0);
+    second.store.mutate('count', 1);
+    second.store.mutate('count', 2);
+
+    first.stop();
+    hub.createTransport().postMessage({
+      type: 'update',
+      origin: 'stale',
+      resource: {
+        key: 'count',
+        status: 'fulfilled',
+        result: -1,
+        timestamp: Date.now() - 1_000,
+        $version: 10,
+      },
+    });
+
+    expect(second.store.getResourceByKey('count')).toMatchObject({
+      result: 2,
+      $version: 2,
+    });
+  });
+
+  it('should apply newer updates of a store with a lower version', () => {
+    vi.useFakeTimers();
+    const hub = createHub();
+    const first = createTab(hub);
+    first.stop();
+    const second = createTab(hub);
+    second.stop();
+    let version = 0;
+    for (let i = 0; i < 4; i++) {
+      second.fetchResource('todos', () => [`v${version++}`], { force: true });
+    }
+    first.fetchResource('todos', () => ['v0']);
+
+    vi.advanceTimersByTime(1);
+    syncStore(first.store, { transport: hub.createTransport() });
+    syncStore(second.store, { transport: hub.createTransport() });
+    expect(second.store.getResourceByKey('todos')).toMatchObject({
+      $version: 3,
+    });
+    first.store.mutate('todos', ['mutated']);
+
+    expect(second.store.getResourceByKey('todos')).toMatchObject({
+      result: ['mutated'],
+      $version: 4,
+    });
+  });
+
+  it('should cancel a local revalidation when a remote write arrives', async () => {
+    const hub = createHub();
+    const first = createTab(hub);
+    const second = createTab(hub);
+    first.fetchResource('todos', () => ['old']);
+    let respond!: (todos: string[]) => void;
+    second.fetchResource(
+      'todos',
+      () => new Promise<string[]>(resolve => (respond = resolve)),
+      { force: true }
+    );
+
+    first.store.mutate('todos', ['old', 'new']);
+    respond(['old']);
+    await new Promise(resolve => setTimeout(resolve));
+
+    for (const tab of [first, second]) {
+      expect(tab.store.getResourceByKey('todos')).toMatchObject({
+        status: 'fulfilled',
+        result: ['old', 'new'],
+      });
+    }
+  });
+
+  it('should share invalidations', () => {
+    const hub = createHub();
+    const first = createTab(hub);
+    const second = createTab(hub);
+    first.fetchResource(['todos', 1], () => 'todo');
+
+    first.store.invalidate(['todos']);
+
+    expect(second.store.getResourceByKey(['todos', 1])).toMatchObject({
+      invalidated: true,
+    });
+    expect(hub.messages.filter(({ type }) => type === 'invalidate')).toEqual([
+      { type: 'invalidate', key: ['todos', 1] },
+    ]);
+  });
+
+  it('should invalidate other stores when a mutation is rolled back', async () => {
+    const hub = createHub();
+    const first = createTab(hub);
+    const second = createTab(hub);
+    first.fetchResource('todos', () => ['a']);
+
+    await first.store
+      .mutate('todos', Promise.reject<string[]>(new Error('Failed')), {
+        optimisticData: ['a', 'b'],
+      })
+      .catch(() => {});
+
+    expect(first.store.getResourceByKey('todos')).toMatchObject({
+      result: ['a'],
+    });
+    expect(second.store.getResourceByKey('todos')).toMatchObject({
+      result: ['a', 'b'],
+      invalidated: true,
+    });
+  });
+
+  it('should only sync keys accepted by shouldSync', () => {
+    const hub = createHub();
+    const first = createResourceStore();
+    syncStore(first, {
+      transport: hub.createTransport(),
+      shouldSync: key => key !== 'session',
+    });
+    const second = createTab(hub);
+
+    createFetchResource(first)('session', () => 'secret');
+    createFetchResource(first)('public', () => 'data');
+
+    expect(second.store.cache.has('session')).toBe(false);
+    expect(second.store.cache.has('public')).toBe(true);
+  });
+
+  it('should stop listening and close the transport', () => {
+    const hub = createHub();
+    const transport = { ...hub.createTransport(), close: vi.fn() };
+    const store = createResourceStore();
+    const stop = syncStore(store, { transport });
+    const other = createTab(hub);
+
+    stop();
+    other.fetchResource('key', () => 'data');
+
+    expect(transport.close).toHaveBeenCalled();
+    expect(store.cache.has('key')).toBe(false);
+  });
+});
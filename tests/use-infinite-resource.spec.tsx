@@ -0,0 +1,162 @@
+import { act, render, renderHook, waitFor } from '@testing-library/react';
+import React from 'react';
+import { createResourceStore } from '../src/resource-store';
+import { ResourceProvider } from '../src/resource-provider';
+import useInfiniteResource from '../src/use-infinite-resource';
+
+import { describe, expect, it, vi } from 'vitest';
+
+type Page = { items: number[]; next?: number; previous?: number };
+
+// Pages of three items each, for cursors between -3 and 9.
+function createPageFetcher(delay = 0) {
+  return vi.fn(
+    (cursor: number = 0) =>
+      new Promise<Page>(resolve =>
+        setTimeout(
+          () =>
+            resolve({
+              items: [cursor, cursor + 1, cursor + 2],
+              next: cursor + 3 <= 6 ? cursor + 3 : undefined,
+              previous: cursor - 3 >= -3 ? cursor - 3 : undefined,
+            }),
+          delay
+        )
+      )
+  );
+}
+
+const pageOptions = {
+  getNextPageParam: (page: Page) => page.next,
+  getPreviousPageParam: (page: Page) => page.previous,
+};
+
+function createWrapper(store = createResourceStore()) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <ResourceProvider store={store}>
+      <React.Suspense fallback={<div>Loading first page</div>}>
+        {children}
+      </React.Suspense>
+    </ResourceProvider>
+  );
+}
+
+describe('useInfiniteResource', () => {
+  it('should suspend for the first page', async () => {
+    const fetchPage = createPageFetcher();
+    const Feed = () => {
+      const { pages } = useInfiniteResource('feed', fetchPage, pageOptions);
+      return (
+        <div data-testid="items">{pages.flatMap(p => p.items).join()}</div>
+      );
+    };
+
+    const screen = render(<Feed />, { wrapper: createWrapper() });
+    expect(screen.getByText('Loading first page')).toBeTruthy();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('items').textContent).toBe('0,1,2');
+    });
+  });
+
+  it('should load more pages into a single cache entry', async () => {
+    const store = createResourceStore();
+    const fetchPage = createPageFetcher(10);
+    const { result } = renderHook(
+      () =>
+        useInfiniteResource(['feed'], fetchPage, {
+          ...pageOptions,
+          suspense: false,
+        }),
+      { wrapper: createWrapper(store) }
+    );
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    expect(result.current.hasNextPage).toBe(true);
+
+    let loading!: Promise<void>;
+    act(() => {
+      loading = result.current.fetchNextPage();
+    });
+    expect(result.current.isFetchingNextPage).toBe(true);
+    await act(() => loading);
+
+    expect(result.current.isFetchingNextPage).toBe(false);
+    expect(result.current.pageParams).toEqual([undefined, 3]);
+    await act(() => result.current.fetchNextPage());
+    expect(result.current.pages.flatMap(page => page.items)).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8,
+    ]);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(store.cache.size).toBe(1);
+  });
+
+  it('should prepend previous pages', async () => {
+    const fetchPage = createPageFetcher();
+    const { result } = renderHook(
+      () =>
+        useInfiniteResource('feed', fetchPage, {
+          ...pageOptions,
+          initialPageParam: 0,
+          suspense: false,
+        }),
+      { wrapper: createWrapper() }
+    );
+    await waitFor(() => expect(result.current.hasPreviousPage).toBe(true));
+
+    await act(() => result.current.fetchPreviousPage());
+
+    expect(result.current.pageParams).toEqual([-3, 0]);
+    expect(result.current.hasPreviousPage).toBe(false);
+  });
+
+  it('should keep the flag of the latest call when an earlier one settles', async () => {
+    const fetchPage = createPageFetcher(10);
+    const { result } = renderHook(
+      () =>
+        useInfiniteResource('feed', fetchPage, {
+          ...pageOptions,
+          initialPageParam: 0,
+          suspense: false,
+        }),
+      { wrapper: createWrapper() }
+    );
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+
+    let next!: Promise<void>;
+    let previous!: Promise<void>;
+    act(() => {
+      next = result.current.fetchNextPage();
+      previous = result.current.fetchPreviousPage();
+    });
+    await act(() => next);
+    expect(result.current.isFetchingPreviousPage).toBe(true);
+
+    await act(() => previous);
+    expect(result.current.isFetchingPreviousPage).toBe(false);
+    expect(result.current.pageParams).toEqual([-3, 0]);
+  });
+
+  it('should refetch every loaded page in order', async () => {
+    const fetchPage = createPageFetcher();
+    const { result } = renderHook(
+      () =>
+        useInfiniteResource('feed', fetchPage, {
+          ...pageOptions,
+          suspense: false,
+        }),
+      { wrapper: createWrapper() }
+    );
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    await act(() => result.current.fetchNextPage());
+    fetchPage.mockClear();
+
+    act(() => result.current.refetch());
+    await waitFor(() => expect(result.current.isValidating).toBe(false));
+
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor)).toEqual([
+      undefined,
+      3,
+    ]);
+    expect(result.current.pages).toHaveLength(2);
+  });
+});
@@ -0,0 +1,213 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import React from 'react';
+import { createResourceStore } from '../src/resource-store';
+import { createFetchResource } from '../src/fetch-resource';
+import { ResourceProvider } from '../src/resource-provider';
+import useMutation from '../src/use-mutation';
+import useResource from '../src/use-resource';
+
+import { describe, expect, it, vi } from 'vitest';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function createWrapper(store = createResourceStore()) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <ResourceProvider store={store}>{children}</ResourceProvider>
+  );
+}
+
+describe('useMutation', () => {
+  it('should track the state of a successful call', async () => {
+    const response = deferred<string>();
+    const { result } = renderHook(
+      () => useMutation((text: string) => response.promise),
+      { wrapper: createWrapper() }
+    );
+    expect(result.current.status).toBe('idle');
+
+    let mutation!: Promise<string>;
+    act(() => {
+      mutation = result.current.mutateAsync('New task');
+    });
+    expect(result.current.isPending).toBe(true);
+    expect(result.current.variables).toBe('New task');
+
+    await act(async () => {
+      response.resolve('created');
+      await mutation;
+    });
+    expect(result.current).toMatchObject({
+      status: 'success',
+      isPending: false,
+      data: 'created',
+      error: undefined,
+    });
+  });
+
+  it('should pass the onMutate context to the error callbacks', async () => {
+    const onError = vi.fn();
+    const onSettled = vi.fn();
+    const { result } = renderHook(
+      () =>
+        useMutation(() => Promise.reject(new Error('Failed to save')), {
+          onMutate: () => ({ previous: 'snapshot' }),
+          onError,
+          onSettled,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    act(() => result.current.mutate());
+    await waitFor(() => expect(result.current.status).toBe('error'));
+
+    expect(result.current.error?.message).toBe('Failed to save');
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), undefined, {
+      previous: 'snapshot',
+    });
+    expect(onSettled).toHaveBeenCalledWith(
+      undefined,
+      expect.any(Error),
+      undefined,
+      { previous: 'snapshot' }
+    );
+
+    act(() => result.current.reset());
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toBeUndefined();
+  });
+
+  it('should settle the call even when a callback throws', async () => {
+    const { result } = renderHook(
+      () =>
+        useMutation(() => Promise.reject(new Error('Failed to save')), {
+          onError: () => {
+            throw new Error('Failed to report');
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.mutateAsync()).rejects.toThrow(
+        'Failed to report'
+      );
+    });
+    expect(result.current).toMatchObject({
+      status: 'error',
+      isPending: false,
+    });
+    expect(result.current.error?.message).toBe('Failed to save');
+  });
+
+  it('should keep a successful call when onSuccess throws', async () => {
+    const onError = vi.fn();
+    const onSettled = vi.fn();
+    const { result } = renderHook(
+      () =>
+        useMutation((n: number) => Promise.resolve(n * 2), {
+          onSuccess: () => {
+            throw new Error('Failed to report');
+          },
+          onError,
+          onSettled,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.mutateAsync(2)).rejects.toThrow(
+        'Failed to report'
+      );
+    });
+    expect(result.current).toMatchObject({
+      status: 'success',
+      isPending: false,
+      data: 4,
+      error: undefined,
+    });
+    expect(onError).not.toHaveBeenCalled();
+    expect(onSettled).not.toHaveBeenCalled();
+  });
+
+  it('should track concurrent calls separately', async () => {
+    const responses = new Map([
+      [1, deferred<number>()],
+      [2, deferred<number>()],
+    ]);
+    const { result } = renderHook(
+      () => useMutation((id: number) => responses.get(id)!.promise),
+      { wrapper: createWrapper() }
+    );
+
+    act(() => {
+      result.current.mutate(1);
+      result.current.mutate(2);
+    });
+    expect(result.current.mutations.map(({ status }) => status)).toEqual([
+      'pending',
+      'pending',
+    ]);
+
+    await act(async () => {
+      responses.get(2)!.resolve(2);
+      await responses.get(2)!.promise;
+    });
+    expect(result.current.mutations.map(({ status }) => status)).toEqual([
+      'pending',
+      'success',
+    ]);
+    expect(result.current.isPending).toBe(true);
+
+    await act(async () => {
+      responses.get(1)!.reject(new Error('Failed'));
+      await responses.get(1)!.promise.catch(() => {});
+    });
+    await waitFor(() => expect(result.current.isPending).toBe(false));
+    expect(result.current.mutations.map(({ status }) => status)).toEqual([
+      'error',
+      'success',
+    ]);
+    expect(result.current.status).toBe('success');
+  });
+
+  it('should update and invalidate cached keys on success', async () => {
+    const store = createResourceStore();
+    const fetchResource = createFetchResource(store);
+    fetchResource(['todos', 'open'], () => ['a']);
+    fetchResource(['todos', 'done'], () => ['b']);
+    let version = 0;
+    const fetcher = vi.fn(() => Promise.resolve(`v${++version}`));
+
+    const { result } = renderHook(
+      () => ({
+        count: useResource('todo-count', fetcher, { suspense: false }),
+        mutation: useMutation((text: string) => Promise.resolve(text), {
+          updates: text => [
+            [['todos', 'open'], (todos: string[]) => [...todos, text]],
+          ],
+          invalidates: ['todo-count', ['todos', 'done']],
+        }),
+      }),
+      { wrapper: createWrapper(store) }
+    );
+    await waitFor(() => expect(result.current.count.data).toBe('v1'));
+
+    await act(() => result.current.mutation.mutateAsync('c'));
+
+    expect(store.getResourceByKey(['todos', 'open'])).toMatchObject({
+      result: ['a', 'c'],
+    });
+    expect(store.getResourceByKey(['todos', 'done'])).toMatchObject({
+      invalidated: true,
+    });
+    await waitFor(() => expect(result.current.count.data).toBe('v2'));
+  });
+});
@@ -1,11 +1,16 @@
-import { fireEvent, render, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, waitFor } from '@testing-library/react';
 import React from 'react';
-import { type FetchResourceOptions } from '../src/fetch-resource';
-import { cache } from '../src/resource-store';
-import useResource from '../src/use-resource';
-
-import { beforeEach, describe, expect, it } from 'vitest';
-import { MightBePromise } from '../src/types';
+import {
+  cache,
+  createResourceStore,
+  invalidate,
+  mutate,
+} from '../src/resource-store';
+import { ResourceProvider } from '../src/resource-provider';
+import useResource, { type UseResourceOptions } from '../src/use-resource';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Fetcher, MightBePromise } from '../src/types';
 
 function renderWithSuspense(
   ui: React.ReactNode,
@@ -22,7 +27,7 @@ function renderWithSuspense(
 
 type ComponentWithLoaderProps<T> = {
   fetcher: () => MightBePromise<T>;
-  options?: FetchResourceOptions;
+  options?: UseResourceOptions<T>;
   resourceKey?: string;
   showStates?: boolean;
   componentId?: string;
@@ -326,3 +331,681 @@ describe('useResource', () => {
     });
   });
 });
+
+describe('useResource - retry', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should expose failureCount and failureReason while retrying', async () => {
+    let calls = 0;
+    const fetcher = () =>
+      ++calls < 3
+        ? Promise.reject(new Error(`Attempt ${calls} failed`))
+        : Promise.resolve('Recovered');
+
+    const RetryingComponent = () => {
+      const { data, failureCount, failureReason, isLoading } = useResource(
+        'retry',
+        fetcher,
+        { suspense: false, retry: 2, retryDelay: 0.01 }
+      );
+      return (
+        <div>
+          <div data-testid="failure-count">{failureCount}</div>
+          <div data-testid="failure-reason">{failureReason?.message}</div>
+          <div data-testid="data">{isLoading ? 'Loading' : data}</div>
+        </div>
+      );
+    };
+
+    const screen = render(<RetryingComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('failure-count').textContent).toBe('1');
+      expect(screen.getByTestId('failure-reason').textContent).toBe(
+        'Attempt 1 failed'
+      );
+      expect(screen.getByTestId('data').textContent).toBe('Loading');
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Recovered');
+      expect(screen.getByTestId('failure-count').textContent).toBe('0');
+    });
+  });
+});
+
+describe('useResource - error ttl', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should refetch a rejected key when mounted after the error ttl', async () => {
+    let calls = 0;
+    const fetcher = () =>
+      ++calls === 1
+        ? Promise.reject(new Error('Server error'))
+        : Promise.resolve('Recovered');
+    const options = { suspense: false, errorTtl: 0.05 };
+
+    const first = render(
+      <ComponentWithLoader fetcher={fetcher} options={options} />
+    );
+    expect(await first.findByText('Server error')).toBeDefined();
+    first.unmount();
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    const second = render(
+      <ComponentWithLoader fetcher={fetcher} options={options} showStates />
+    );
+    expect(second.getByTestId('is-loading').textContent).toBe('true');
+    expect(await second.findByText('Recovered')).toBeDefined();
+    expect(calls).toBe(2);
+  });
+});
+
+describe('useResource - keep data on error', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  function createFetcher() {
+    let calls = 0;
+    return () =>
+      ++calls === 1
+        ? Promise.resolve('Stale data')
+        : Promise.reject(new Error('Refresh failed'));
+  }
+
+  const DataAndError = ({
+    fetcher,
+    keepDataOnError,
+  }: {
+    fetcher: () => Promise<string>;
+    keepDataOnError?: boolean;
+  }) => {
+    const { data, error, refetch } = useResource('keep-data', fetcher, {
+      suspense: false,
+      keepDataOnError,
+    });
+    return (
+      <div>
+        <div data-testid="data">{data ?? 'No data'}</div>
+        <div data-testid="error">{error?.message ?? 'No error'}</div>
+        <button data-testid="refetch-button" onClick={refetch} />
+      </div>
+    );
+  };
+
+  it('should return stale data together with the error', async () => {
+    const screen = render(<DataAndError fetcher={createFetcher()} />);
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Stale data');
+    });
+
+    fireEvent.click(screen.getByTestId('refetch-button'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error').textContent).toBe('Refresh failed');
+    });
+    expect(screen.getByTestId('data').textContent).toBe('Stale data');
+  });
+
+  it('should clear data on error when keepDataOnError is false', async () => {
+    const screen = render(
+      <DataAndError fetcher={createFetcher()} keepDataOnError={false} />
+    );
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Stale data');
+    });
+
+    fireEvent.click(screen.getByTestId('refetch-button'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error').textContent).toBe('Refresh failed');
+    });
+    expect(screen.getByTestId('data').textContent).toBe('No data');
+  });
+});
+
+describe('useResource - refreshInterval', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should poll once per interval for all components sharing a key', async () => {
+    let count = 0;
+    const fetcher = vi.fn(() => `Tick ${++count}`);
+    const options = { suspense: false, refreshInterval: 0.05 };
+
+    const screen = render(
+      <>
+        <ComponentWithLoader
+          fetcher={fetcher}
+          options={options}
+          resourceKey="poll"
+          componentId="1"
+        />
+        <ComponentWithLoader
+          fetcher={fetcher}
+          options={options}
+          resourceKey="poll"
+          componentId="2"
+        />
+      </>
+    );
+
+    expect(screen.getByTestId('data-1').textContent).toBe('Tick 1');
+    await waitFor(() => {
+      expect(screen.getByTestId('data-1').textContent).toBe('Tick 3');
+    });
+    expect(screen.getByTestId('data-2').textContent).toBe('Tick 3');
+    expect(fetcher).toHaveBeenCalledTimes(3);
+
+    screen.unmount();
+    const calls = fetcher.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 120));
+    expect(fetcher).toHaveBeenCalledTimes(calls);
+  });
+});
+
+describe('useResource - revalidateOnFocus', () => {
+  it('should revalidate stale data when the focus source fires', async () => {
+    const listeners = new Set<() => void>();
+    const store = createResourceStore({
+      focusSource: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    });
+    let count = 0;
+    const fetcher = () => `Focus ${++count}`;
+
+    const screen = render(
+      <ResourceProvider store={store}>
+        <ComponentWithLoader
+          fetcher={fetcher}
+          options={{ suspense: false, ttl: 0.01, revalidateOnFocus: true }}
+        />
+      </ResourceProvider>
+    );
+
+    expect(screen.getByText('Focus 1')).toBeDefined();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    act(() => listeners.forEach(listener => listener()));
+
+    expect(await screen.findByText('Focus 2')).toBeDefined();
+  });
+});
+
+describe('useResource - conditional fetching', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  const ConditionalComponent = ({
+    userId,
+    enabled,
+    fetcher,
+  }: {
+    userId: string | null;
+    enabled?: boolean;
+    fetcher: () => Promise<string>;
+  }) => {
+    const { status, data } = useResource(
+      userId ? `user-${userId}` : null,
+      fetcher,
+      { enabled }
+    );
+    return (
+      <div>
+        <div data-testid="status">{status}</div>
+        <div data-testid="data">{data ?? 'No data'}</div>
+      </div>
+    );
+  };
+
+  it('should stay idle without fetching or suspending while the key is null', () => {
+    const fetcher = vi.fn(() => Promise.resolve('User'));
+    const screen = renderWithSuspense(
+      <ConditionalComponent userId={null} fetcher={fetcher} />,
+      'Loading Suspense...'
+    );
+
+    expect(screen.queryByText('Loading Suspense...')).toBeNull();
+    expect(screen.getByTestId('status').textContent).toBe('idle');
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should start fetching once the key becomes available', async () => {
+    const fetcher = vi.fn(() => Promise.resolve('User 1'));
+    const screen = renderWithSuspense(
+      <ConditionalComponent userId={null} fetcher={fetcher} />
+    );
+
+    screen.rerender(<ConditionalComponent userId="1" fetcher={fetcher} />);
+
+    expect(await screen.findByText('User 1')).toBeDefined();
+    expect(screen.getByTestId('status').textContent).toBe('fulfilled');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for enabled before fetching', async () => {
+    const fetcher = vi.fn(() => Promise.resolve('User 1'));
+    const screen = renderWithSuspense(
+      <ConditionalComponent userId="1" enabled={false} fetcher={fetcher} />
+    );
+
+    expect(screen.getByTestId('status').textContent).toBe('idle');
+    expect(fetcher).not.toHaveBeenCalled();
+
+    screen.rerender(
+      <ConditionalComponent userId="1" enabled fetcher={fetcher} />
+    );
+    expect(await screen.findByText('User 1')).toBeDefined();
+  });
+
+  it('should skip mutations while the key is null', async () => {
+    let mutate!: ReturnType<typeof useResource<string>>['mutate'];
+    const NullKey = () => {
+      mutate = useResource<string>(null, () => 'User').mutate;
+      return null;
+    };
+    renderWithSuspense(<NullKey />);
+
+    expect(mutate('User')).toBe(false);
+    await expect(mutate(() => Promise.resolve('User'))).resolves.toBe(false);
+  });
+
+  it('should stay idle and ignore refetch while disabled, even when cached', async () => {
+    const fetcher = vi.fn(() => Promise.resolve('User 1'));
+    let refetch = () => {};
+    const Toggle = ({ enabled }: { enabled: boolean }) => {
+      const result = useResource('user-1', fetcher, { enabled });
+      refetch = result.refetch;
+      return (
+        <div data-testid="state">
+          {result.status}: {result.data ?? 'No data'}
+        </div>
+      );
+    };
+    const screen = renderWithSuspense(<Toggle enabled />);
+    expect(await screen.findByText('fulfilled: User 1')).toBeDefined();
+
+    screen.rerender(<Toggle enabled={false} />);
+    expect(screen.getByTestId('state').textContent).toBe('idle: No data');
+
+    act(() => refetch());
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('state').textContent).toBe('idle: No data');
+  });
+});
+
+describe('useResource - structured keys', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should share data between equivalent keys created on every render', async () => {
+    const fetcher = vi.fn(() => Promise.resolve('Page 2'));
+
+    const Page = ({ id }: { id: string }) => {
+      const { data } = useResource(['posts', { userId: 1, page: 2 }], fetcher, {
+        suspense: false,
+      });
+      return <div data-testid={`data-${id}`}>{data ?? 'No data'}</div>;
+    };
+
+    const PageReordered = () => {
+      const { data } = useResource(['posts', { page: 2, userId: 1 }], fetcher, {
+        suspense: false,
+      });
+      return <div data-testid="data-reordered">{data ?? 'No data'}</div>;
+    };
+
+    const screen = render(
+      <>
+        <Page id="1" />
+        <PageReordered />
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('data-1').textContent).toBe('Page 2');
+      expect(screen.getByTestId('data-reordered').textContent).toBe('Page 2');
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useResource - invalidate', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should refetch mounted resources matching the prefix', async () => {
+    let version = 0;
+    const fetcher = vi.fn(() => Promise.resolve(`Todos v${++version}`));
+
+    const Todos = () => {
+      const { data } = useResource(['todos', { done: false }], fetcher, {
+        suspense: false,
+        ttl: 60,
+      });
+      return <div data-testid="data">{data ?? 'No data'}</div>;
+    };
+
+    const screen = render(<Todos />);
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Todos v1');
+    });
+
+    await act(() => invalidate(['todos']));
+    expect(screen.getByTestId('data').textContent).toBe('Todos v2');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useResource - placeholder data', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  const Page = ({
+    page,
+    options,
+  }: {
+    page: number;
+    options: UseResourceOptions<string>;
+  }) => {
+    const { data, status, isPlaceholderData } = useResource(
+      ['page', page],
+      () =>
+        new Promise<string>(resolve =>
+          setTimeout(() => resolve(`Page ${page}`), 50)
+        ),
+      options
+    );
+    return (
+      <div>
+        <div data-testid="data">{data ?? 'No data'}</div>
+        <div data-testid="status">{status}</div>
+        <div data-testid="placeholder">{String(isPlaceholderData)}</div>
+      </div>
+    );
+  };
+
+  it('should keep the previous data without suspending while a new key loads', async () => {
+    const options = { keepPreviousData: true };
+    const screen = renderWithSuspense(
+      <Page page={1} options={options} />,
+      'Loading Suspense...'
+    );
+    expect(await screen.findByText('Page 1')).toBeDefined();
+
+    screen.rerender(<Page page={2} options={options} />);
+
+    expect(screen.queryByText('Loading Suspense...')).toBeNull();
+    expect(screen.getByTestId('data').textContent).toBe('Page 1');
+    expect(screen.getByTestId('status').textContent).toBe('pending');
+    expect(screen.getByTestId('placeholder').textContent).toBe('true');
+
+    expect(await screen.findByText('Page 2')).toBeDefined();
+    expect(screen.getByTestId('placeholder').textContent).toBe('false');
+  });
+
+  it('should suspend on the first load without previous data', () => {
+    const screen = renderWithSuspense(
+      <Page page={1} options={{ keepPreviousData: true }} />,
+      'Loading Suspense...'
+    );
+
+    expect(screen.getByText('Loading Suspense...')).toBeDefined();
+  });
+
+  it('should return placeholder data without writing it to the cache', async () => {
+    const screen = renderWithSuspense(
+      <Page page={1} options={{ placeholderData: 'Skeleton' }} />,
+      'Loading Suspense...'
+    );
+
+    expect(screen.queryByText('Loading Suspense...')).toBeNull();
+    expect(screen.getByTestId('data').textContent).toBe('Skeleton');
+    expect(screen.getByTestId('placeholder').textContent).toBe('true');
+    expect(cache.get('["page",1]')?.status).toBe('pending');
+
+    expect(await screen.findByText('Page 1')).toBeDefined();
+    expect(screen.getByTestId('placeholder').textContent).toBe('false');
+  });
+
+  it('should pass the data of the previous key to a placeholder function', async () => {
+    const options = {
+      placeholderData: (previous?: string) => `${previous ?? 'Nothing'} (old)`,
+    };
+    const screen = render(<Page page={1} options={options} />);
+    expect(screen.getByTestId('data').textContent).toBe('Nothing (old)');
+    expect(await screen.findByText('Page 1')).toBeDefined();
+
+    screen.rerender(<Page page={2} options={options} />);
+    expect(screen.getByTestId('data').textContent).toBe('Page 1 (old)');
+    expect(await screen.findByText('Page 2')).toBeDefined();
+  });
+});
+
+describe('useResource - select', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  type User = { name: string; visits: number; tags: string[] };
+  const fetchUser = (): User => ({ name: 'Ada', visits: 1, tags: ['admin'] });
+
+  const UserView = <S,>({
+    options,
+    onRender,
+  }: {
+    options: UseResourceOptions<User, S>;
+    onRender: (data: S | undefined) => void;
+  }) => {
+    const { data } = useResource('user', fetchUser, options);
+    onRender(data);
+    return <div data-testid="data">{JSON.stringify(data)}</div>;
+  };
+
+  it('should return the selected data', () => {
+    const screen = render(
+      <UserView options={{ select: user => user.name }} onRender={() => {}} />
+    );
+
+    expect(screen.getByTestId('data').textContent).toBe('"Ada"');
+  });
+
+  it('should only re-render when the selected data changes', () => {
+    const onRender = vi.fn();
+    const select = (user: User) => user.tags;
+    render(<UserView options={{ select }} onRender={onRender} />);
+    expect(onRender).toHaveBeenCalledTimes(1);
+    const tags = onRender.mock.calls[0][0];
+
+    act(() => {
+      mutate<User>('user', user => ({ ...user, visits: user.visits + 1 }));
+      mutate<User>('user', user => ({ ...user, tags: ['admin'] }));
+    });
+    expect(onRender).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      mutate<User>('user', user => ({ ...user, tags: ['admin', 'editor'] }));
+    });
+    expect(onRender).toHaveBeenCalledTimes(2);
+    expect(onRender.mock.calls[1][0]).toEqual(['admin', 'editor']);
+    expect(onRender.mock.calls[1][0]).not.toBe(tags);
+  });
+
+  it('should select once per version, even with an inline selector', () => {
+    const select = vi.fn((user: User) => user.name);
+    const view = () => (
+      <UserView
+        options={{ select: user => select(user) }}
+        onRender={() => {}}
+      />
+    );
+    const screen = render(view());
+
+    screen.rerender(view());
+    screen.rerender(view());
+    expect(select).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      mutate<User>('user', user => ({ ...user, visits: 2 }));
+    });
+    expect(select).toHaveBeenCalledTimes(2);
+  });
+
+  it('should compare selected values with a custom isEqual', () => {
+    const onRender = vi.fn();
+    render(
+      <UserView
+        options={{
+          select: user => user.name,
+          isEqual: (previous, next) =>
+            previous.toLowerCase() === next.toLowerCase(),
+        }}
+        onRender={onRender}
+      />
+    );
+
+    act(() => {
+      mutate<User>('user', user => ({ ...user, name: 'ADA' }));
+    });
+    expect(onRender).toHaveBeenCalledTimes(1);
+    expect(onRender.mock.calls[0][0]).toBe('Ada');
+  });
+});
+
+describe('useResource - dependencies', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  const user = {
+    key: 'user',
+    fetcher: () => Promise.resolve({ name: 'Ada' }),
+  };
+
+  const Greeting = ({ fetcher }: { fetcher: Fetcher<string> }) => {
+    const { data } = useResource('greeting', fetcher, { dependsOn: [user] });
+    return <div data-testid="data">{data}</div>;
+  };
+
+  const greet: Fetcher<string> = ({ dependencies: [user] }) =>
+    Promise.resolve(`Hello, ${(user as { name: string }).name}`);
+
+  it('should fetch the dependencies before the resource', async () => {
+    const screen = renderWithSuspense(<Greeting fetcher={greet} />);
+
+    expect(await screen.findByText('Hello, Ada')).toBeDefined();
+  });
+
+  it('should refetch a mounted dependent when its dependency changes', async () => {
+    const fetcher = vi.fn(greet);
+    const screen = renderWithSuspense(<Greeting fetcher={fetcher} />);
+    expect(await screen.findByText('Hello, Ada')).toBeDefined();
+
+    act(() => {
+      mutate('user', { name: 'Grace' });
+    });
+    expect(await screen.findByText('Hello, Grace')).toBeDefined();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useResource - ResourceProvider', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should read and write the store of the nearest provider', () => {
+    const store = createResourceStore();
+    const screen = render(
+      <ResourceProvider store={store}>
+        <ComponentWithLoader
+          fetcher={() => 'Provided'}
+          options={{ suspense: false }}
+        />
+      </ResourceProvider>
+    );
+
+    expect(screen.getByText('Provided')).toBeDefined();
+    expect(store.cache.has('test')).toBe(true);
+    expect(cache.has('test')).toBe(false);
+  });
+
+  it('should keep caches of separate providers isolated', () => {
+    const storeA = createResourceStore();
+    const storeB = createResourceStore();
+    const screen = render(
+      <>
+        <ResourceProvider store={storeA}>
+          <ComponentWithLoader
+            fetcher={() => 'A'}
+            options={{ suspense: false }}
+            componentId="a"
+          />
+        </ResourceProvider>
+        <ResourceProvider store={storeB}>
+          <ComponentWithLoader
+            fetcher={() => 'B'}
+            options={{ suspense: false }}
+            componentId="b"
+          />
+        </ResourceProvider>
+      </>
+    );
+
+    expect(screen.getByTestId('data-a').textContent).toBe('A');
+    expect(screen.getByTestId('data-b').textContent).toBe('B');
+  });
+
+  it('should refetch and mutate through the provided store', async () => {
+    const store = createResourceStore();
+    let count = 0;
+    const fetcher = () => Promise.resolve(`Data ${++count}`);
+
+    const MutatingComponent = () => {
+      const { data, refetch, mutate } = useResource('test', fetcher, {
+        suspense: false,
+      });
+      return (
+        <div>
+          <div data-testid="data">{data ?? 'No data'}</div>
+          <button data-testid="refetch-button" onClick={refetch} />
+          <button data-testid="mutate-button" onClick={() => mutate('Local')} />
+        </div>
+      );
+    };
+
+    const screen = render(
+      <ResourceProvider store={store}>
+        <MutatingComponent />
+      </ResourceProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Data 1');
+    });
+
+    fireEvent.click(screen.getByTestId('refetch-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Data 2');
+    });
+
+    fireEvent.click(screen.getByTestId('mutate-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('Local');
+    });
+    expect(cache.has('test')).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import { act, render, waitFor } from '@testing-library/react';
+import React from 'react';
+import { createResourceStore } from '../src/resource-store';
+import { ResourceProvider } from '../src/resource-provider';
+import useResources, { type UseResourcesOptions } from '../src/use-resources';
+
+import { describe, expect, it, vi } from 'vitest';
+
+function delayed<T>(value: T, ms: number) {
+  return vi.fn(
+    () => new Promise<T>(resolve => setTimeout(() => resolve(value), ms))
+  );
+}
+
+function failing(message: string, ms: number) {
+  return vi.fn(
+    () =>
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error(message)), ms)
+      )
+  );
+}
+
+class ErrorBoundary extends React.Component<
+  { children: React.ReactNode },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error) return <div>Error: {this.state.error.message}</div>;
+    return this.props.children;
+  }
+}
+
+function createWrapper(store = createResourceStore()) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <ResourceProvider store={store}>
+      <ErrorBoundary>
+        <React.Suspense fallback={<div>Loading...</div>}>
+          {children}
+        </React.Suspense>
+      </ErrorBoundary>
+    </ResourceProvider>
+  );
+}
+
+describe('useResources', () => {
+  it('should start every fetch in the same render and suspend until all have loaded', async () => {
+    const fetchUser = delayed({ name: 'Ada' }, 20);
+    const fetchCount = delayed(3, 40);
+
+    const Dashboard = () => {
+      const [user, count] = useResources([
+        { key: 'user', fetcher: fetchUser },
+        { key: ['count'], fetcher: fetchCount },
+      ]);
+      return (
+        <div data-testid="data">
+          {user.data?.name} has {count.data}
+        </div>
+      );
+    };
+
+    const screen = render(<Dashboard />, { wrapper: createWrapper() });
+    expect(screen.getByText('Loading...')).toBeDefined();
+    expect(fetchUser).toHaveBeenCalledTimes(1);
+    expect(fetchCount).toHaveBeenCalledTimes(1);
+
+    expect(await screen.findByText('Ada has 3')).toBeDefined();
+  });
+
+  it('should return errors in the state of their key in all-settled mode', async () => {
+    const Dashboard = () => {
+      const [user, count] = useResources([
+        { key: 'user', fetcher: failing('no user', 10) },
+        { key: 'count', fetcher: delayed(3, 30) },
+      ]);
+      return (
+        <div data-testid="data">
+          {user.status}: {user.error?.message}, {count.status}: {count.data}
+        </div>
+      );
+    };
+
+    const screen = render(<Dashboard />, { wrapper: createWrapper() });
+
+    expect(
+      await screen.findByText('rejected: no user, fulfilled: 3')
+    ).toBeDefined();
+  });
+
+  it('should throw the first error without waiting for the rest in fail-fast mode', async () => {
+    const fetchCount = delayed(3, 1000);
+    const Dashboard = () => {
+      useResources(
+        [
+          { key: 'user', fetcher: failing('no user', 10) },
+          { key: 'count', fetcher: fetchCount },
+        ],
+        { errorMode: 'fail-fast' }
+      );
+      return <div>Loaded</div>;
+    };
+
+    const screen = render(<Dashboard />, { wrapper: createWrapper() });
+
+    expect(await screen.findByText('Error: no user')).toBeDefined();
+    expect(fetchCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report each key separately without suspense', async () => {
+    const options: UseResourcesOptions = { suspense: false };
+    const Dashboard = ({ enabled }: { enabled: boolean }) => {
+      const [user, count] = useResources(
+        [
+          { key: 'user', fetcher: delayed('Ada', 10) },
+          {
+            key: 'count',
+            fetcher: delayed(3, 10),
+            options: { enabled },
+          },
+        ],
+        options
+      );
+      return (
+        <div data-testid="data">
+          {user.status}, {count.status}
+        </div>
+      );
+    };
+
+    const screen = render(<Dashboard enabled={false} />, {
+      wrapper: createWrapper(),
+    });
+    expect(screen.getByTestId('data').textContent).toBe('pending, idle');
+
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe('fulfilled, idle');
+    });
+
+    screen.rerender(<Dashboard enabled />);
+    await waitFor(() => {
+      expect(screen.getByTestId('data').textContent).toBe(
+        'fulfilled, fulfilled'
+      );
+    });
+  });
+
+  it('should refetch and mutate a single key', async () => {
+    let version = 0;
+    const fetchCount = vi.fn(() => Promise.resolve(++version));
+    let refetchCount: () => void = () => {};
+    let mutateUser: (name: string) => void = () => {};
+
+    const Dashboard = () => {
+      const [user, count] = useResources([
+        { key: 'user', fetcher: () => 'Ada' },
+        { key: 'count', fetcher: fetchCount },
+      ]);
+      refetchCount = count.refetch;
+      mutateUser = name => user.mutate(name);
+      return (
+        <div data-testid="data">
+          {user.data}: {count.data}
+        </div>
+      );
+    };
+
+    const screen = render(<Dashboard />, { wrapper: createWrapper() });
+    expect(await screen.findByText('Ada: 1')).toBeDefined();
+
+    act(() => refetchCount());
+    expect(await screen.findByText('Ada: 2')).toBeDefined();
+
+    act(() => mutateUser('Grace'));
+    expect(screen.getByTestId('data').textContent).toBe('Grace: 2');
+    expect(fetchCount).toHaveBeenCalledTimes(2);
+  });
+});